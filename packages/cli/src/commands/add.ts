@@ -3,21 +3,57 @@
  * Installs components with version tracking
  */
 
+import path from "path";
 import chalk from "chalk";
-import { locateComponent } from "../utils/component-locator.js";
-import { computeChecksum } from "../utils/checksum.js";
-import { fetchRegistryItem } from "../utils/registry.js";
+import {
+  locateComponent,
+  locateComponentFiles,
+  toTarget,
+} from "../utils/component-locator.js";
+import { readComponentsConfig } from "../utils/components-config.js";
+import { transformRegistryItem } from "../utils/transform.js";
+import {
+  fetchRegistryItem,
+  resolveRegistryItemVersion,
+} from "../utils/registry.js";
+import {
+  getDependencyEdges,
+  resolveDependencyGraph,
+} from "../utils/dependency-graph.js";
+import type {
+  DependencyGraph,
+  ResolvedDependency,
+} from "../utils/dependency-graph.js";
+import { createLockEntry } from "../utils/lock-entry.js";
 import { execShadcnAdd } from "../utils/shadcn.js";
+import { installRegistryItem } from "../utils/installer.js";
+import {
+  parseComponentName,
+  parseComponentSpec,
+} from "../utils/component-spec.js";
+import {
+  defaultRangeFor,
+  isValidRange,
+  satisfiesRange,
+} from "../utils/semver.js";
 import {
   readOrCreateLockFile,
   writeLockFile,
   updateComponentEntry,
   isComponentTracked,
+  recordRegistryMigration,
+  findFileOwner,
 } from "../utils/lock-file.js";
+import { readConfig, resolveComponentRegistryUrl } from "../utils/config.js";
+import { runHook } from "../utils/hooks.js";
+import { setOfflineMode, setRecheckMissing } from "../utils/http-cache.js";
+import type { RegistryItem } from "../types/registry.js";
 
 interface AddCommandOptions {
   /**
    * Add tracking to existing component without reinstalling
+   * With --force on a tracked component, re-records its files at the
+   * tracked version
    */
   scan?: boolean;
 
@@ -26,38 +62,86 @@ interface AddCommandOptions {
    */
   force?: boolean;
 
+  /**
+   * Semver range for future updates (defaults to ^<installed version>)
+   */
+  range?: string;
+
+  /**
+   * Install with `npx shadcn@latest add` instead of writing files directly
+   */
+  shadcn?: boolean;
+
   /**
    * Registry URL
    */
   registry?: string;
-}
 
-const DEFAULT_REGISTRY_URL = "https://voidui.dev/r";
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
 
 /**
  * Main add command handler
  * Installs a component and tracks it in voidui.lock.json
  *
- * @param component - Component name
+ * @param componentSpec - Component name, optionally with a version
+ *   (e.g., "separator" or "separator@1.1.0")
  * @param options - Command options
  */
 export async function addCommand(
-  component: string | undefined,
+  componentSpec: string | undefined,
   options: AddCommandOptions,
 ): Promise<void> {
-  const registryUrl = options.registry || DEFAULT_REGISTRY_URL;
   const cwd = process.cwd();
 
   // Validate component name
-  if (!component) {
+  if (!componentSpec) {
     console.error(chalk.red("❌ Component name is required"));
     console.error(chalk.gray("\nUsage:"));
     console.error(chalk.gray("  voidui add <component>"));
+    console.error(chalk.gray("  voidui add <component>@<version>"));
+    console.error(chalk.gray("  voidui add @<namespace>/<component>"));
     console.error(chalk.gray("  voidui add <component> --scan"));
     console.error(chalk.gray("  voidui add <component> --force"));
     process.exit(1);
   }
 
+  if (options.offline && options.shadcn) {
+    console.error(chalk.red("❌ --offline can't be used with --shadcn"));
+    console.error(
+      chalk.gray("   The shadcn CLI always fetches from the registry"),
+    );
+    process.exit(1);
+  }
+
+  setOfflineMode(Boolean(options.offline));
+  // A component named on the command line may have just been published
+  setRecheckMissing(true);
+
+  let component: string;
+  let requestedVersion: string | undefined;
+  let registryUrl: string;
+
+  try {
+    ({ name: component, version: requestedVersion } =
+      parseComponentSpec(componentSpec));
+    registryUrl = await resolveComponentRegistryUrl(
+      cwd,
+      component,
+      options.registry,
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(`❌ ${error instanceof Error ? error.message : error}`),
+    );
+    process.exit(1);
+  }
+
+  const { namespace, name } = parseComponentName(component);
+
   console.log(chalk.blue(`\n📦 Adding ${component}...\n`));
 
   // 1. Check if component already exists locally
@@ -79,7 +163,22 @@ export async function addCommand(
     process.exit(1);
   }
 
-  // 2. Fetch registry metadata to get current version
+  // 2. Check if already tracked
+  let lockFile = await readOrCreateLockFile(cwd);
+
+  if (isComponentTracked(lockFile, component) && !options.force) {
+    console.log(
+      chalk.yellow(
+        `⚠️  Component "${component}" is already tracked in lock file`,
+      ),
+    );
+    console.log(
+      chalk.gray("   Use --force to update the tracking information"),
+    );
+    return;
+  }
+
+  // 3. Fetch registry metadata to get current version
   console.log(chalk.gray("Fetching registry metadata..."));
   const registryItem = await fetchRegistryItem(component, registryUrl);
 
@@ -107,12 +206,210 @@ export async function addCommand(
     process.exit(1);
   }
 
-  const currentVersion = versioning.currentVersion;
+  if (
+    requestedVersion &&
+    !versioning.availableVersions.includes(requestedVersion)
+  ) {
+    console.error(
+      chalk.red(`❌ Version "${requestedVersion}" not found for ${component}`),
+    );
+    console.error(
+      chalk.gray(`   Available: ${versioning.availableVersions.join(", ")}`),
+    );
+    process.exit(1);
+  }
+
+  // Re-scanning a tracked component (e.g. after resolving merge conflicts)
+  // records the files on disk for the version and range it already has
+  const scannedEntry = options.scan
+    ? lockFile.components[component]
+    : undefined;
+  const installVersion =
+    requestedVersion ??
+    scannedEntry?.installedVersion ??
+    versioning.currentVersion;
+  const range =
+    options.range ??
+    (scannedEntry?.range && satisfiesRange(installVersion, scannedEntry.range)
+      ? scannedEntry.range
+      : defaultRangeFor(installVersion));
+
+  if (!isValidRange(range) || !satisfiesRange(installVersion, range)) {
+    console.error(
+      chalk.red(`❌ Range "${range}" does not include ${installVersion}`),
+    );
+    console.error(chalk.gray("   Use a semver range such as ^1.2.0 or ~1.2.0"));
+    process.exit(1);
+  }
+
+  const versionItem =
+    installVersion === versioning.currentVersion
+      ? registryItem
+      : await resolveRegistryItemVersion(
+          component,
+          installVersion,
+          registryUrl,
+        );
+
+  if (versionItem?.meta?.partial) {
+    console.log(
+      chalk.yellow(
+        `⚠️  The registry only has the main file of ${component}@${installVersion}; its other files and dependencies are unknown and not installed`,
+      ),
+    );
+  }
+
+  // 4. Resolve registry dependencies before writing anything
+  const { registries } = await readConfig(cwd);
+  let graph: DependencyGraph;
+
+  try {
+    graph = await resolveDependencyGraph(
+      component,
+      versionItem ?? registryItem,
+      registryUrl,
+      lockFile,
+      registries,
+    );
+  } catch (error) {
+    console.error(chalk.red("❌ Could not resolve registry dependencies:"));
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  for (const cycle of graph.cycles) {
+    console.log(
+      chalk.yellow(`⚠️  Circular registry dependency: ${cycle.join(" → ")}`),
+    );
+  }
+
+  if (graph.conflicts.length > 0) {
+    console.error(chalk.red("❌ Registry dependency conflicts:"));
+    for (const conflict of graph.conflicts) {
+      console.error(chalk.gray(`   - ${conflict.message}`));
+    }
+    console.error(
+      chalk.gray(
+        "\n   Update the conflicting components first, or pick another version.",
+      ),
+    );
+    process.exit(1);
+  }
+
+  for (const dependency of graph.dependencies) {
+    if (dependency.version === null) {
+      console.log(
+        chalk.yellow(
+          `⚠️  Registry dependency ${dependency.name} has no version tracking and won't be tracked in voidui.lock.json`,
+        ),
+      );
 
-  // 3. Install component via shadcn if needed
+      // shadcn installs it with the component
+      if (!options.shadcn) {
+        console.log(
+          chalk.gray(
+            `   Install it with \`npx shadcn@latest add ${dependency.name}\` if needed`,
+          ),
+        );
+      }
+    }
+  }
+
+  const newDependencies = graph.dependencies.filter(
+    (
+      dependency,
+    ): dependency is ResolvedDependency & {
+      version: string;
+      item: RegistryItem;
+    } => dependency.item !== null && dependency.version !== null,
+  );
+
+  // Every file target is resolved before anything is written
+  const plannedTargets: Array<{ owner: string; targets: string[] }> = [];
+
+  try {
+    for (const { name: owner, item } of [
+      { name: component, item: versionItem ?? registryItem },
+      ...newDependencies,
+    ]) {
+      plannedTargets.push({
+        owner,
+        targets: [
+          ...(owner === component ? [toTarget(location.path, cwd)] : []),
+          ...(
+            await locateComponentFiles(
+              item,
+              cwd,
+              parseComponentName(owner).namespace,
+            )
+          ).map((fileLocation) => fileLocation.target),
+        ],
+      });
+    }
+  } catch (error) {
+    console.error(chalk.red("❌ Installation failed:"));
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Namespaced components install into their own directories, but explicit
+  // targets can still collide; a file must not be tracked by two lock entries
+  for (const { owner, targets } of plannedTargets) {
+    for (const target of targets) {
+      const trackedBy = await findFileOwner(lockFile, target, owner, cwd);
+
+      if (trackedBy) {
+        console.error(
+          chalk.red(
+            `❌ ${target} is already tracked by ${trackedBy}, so ${owner} can't be installed there`,
+          ),
+        );
+        console.error(
+          chalk.gray(
+            `\n   Run \`voidui remove ${trackedBy}\` first to replace it with ${owner}`,
+          ),
+        );
+        process.exit(1);
+      }
+    }
+  }
+
+  // 5. Install component files if needed
   if (!options.scan) {
     try {
-      await execShadcnAdd(component, { registryUrl });
+      if (options.shadcn) {
+        // shadcn installs registry dependencies itself
+        await execShadcnAdd(component, {
+          registryUrl,
+          // The current version is served from the main item
+          version:
+            installVersion !== versioning.currentVersion
+              ? installVersion
+              : undefined,
+        });
+      } else if (versionItem) {
+        // Dependencies first; files that already exist are kept
+        for (const dependency of newDependencies) {
+          console.log(
+            chalk.blue(
+              `\n📦 Installing dependency ${dependency.name}@${dependency.version}...\n`,
+            ),
+          );
+          await installRegistryItem(dependency.item, cwd, {
+            overwrite: false,
+            namespace: parseComponentName(dependency.name).namespace,
+          });
+        }
+
+        console.log(
+          chalk.blue(`\n📦 Installing ${component}@${installVersion}...\n`),
+        );
+        await installRegistryItem(versionItem, cwd, { namespace });
+      } else {
+        throw new Error(
+          `Version ${installVersion} is not available from this registry.\n   Expected at: ${registryUrl}/${name}/${installVersion}.json`,
+        );
+      }
     } catch (error) {
       console.error(chalk.red("\n❌ Installation failed:"));
       console.error(error instanceof Error ? error.message : String(error));
@@ -120,7 +417,7 @@ export async function addCommand(
     }
   }
 
-  // 4. Locate the installed component
+  // 6. Locate the installed component
   const componentLocation = await locateComponent(component, cwd);
 
   if (!componentLocation.exists) {
@@ -135,45 +432,108 @@ export async function addCommand(
     process.exit(1);
   }
 
-  // 5. Compute checksum of installed file
-  console.log(chalk.gray("Computing checksum..."));
-  const checksum = await computeChecksum(componentLocation.path);
-
-  // 6. Read or create lock file
-  const lockFile = await readOrCreateLockFile(cwd);
+  // 7. Compute checksums of the installed files
+  console.log(chalk.gray("Computing checksums..."));
+  const componentsConfig = await readComponentsConfig(cwd);
+  const addedDependencies: ResolvedDependency[] = [];
+  const addedFiles: string[] = [];
 
-  // Check if already tracked
-  if (isComponentTracked(lockFile, component) && !options.force) {
-    console.log(
-      chalk.yellow(
-        `⚠️  Component "${component}" is already tracked in lock file`,
+  for (const dependency of newDependencies) {
+    const dependencyEntry = await createLockEntry(
+      transformRegistryItem(
+        dependency.item,
+        componentsConfig,
+        parseComponentName(dependency.name).namespace,
       ),
+      cwd,
+      {
+        installedVersion: dependency.version,
+        range: defaultRangeFor(dependency.version),
+        registryDependencies: getDependencyEdges(dependency.item, {
+          namespace: parseComponentName(dependency.name).namespace,
+          registryUrl: dependency.registryUrl,
+          registries,
+        }),
+        registryUrl: dependency.registryUrl,
+        namespace: parseComponentName(dependency.name).namespace,
+      },
     );
-    console.log(
-      chalk.gray("   Use --force to update the tracking information"),
-    );
-    return;
+
+    if (!dependencyEntry) {
+      console.log(
+        chalk.yellow(
+          `⚠️  Dependency ${dependency.name} is not installed. Add it with \`voidui add ${dependency.name}\``,
+        ),
+      );
+      continue;
+    }
+
+    lockFile = updateComponentEntry(lockFile, dependency.name, dependencyEntry);
+    addedDependencies.push(dependency);
+    addedFiles.push(...Object.keys(dependencyEntry.files ?? {}));
   }
 
-  // 7. Update lock file
-  const updatedLockFile = updateComponentEntry(lockFile, component, {
-    installedVersion: currentVersion,
-    installedAt: new Date().toISOString(),
-    checksum: checksum,
-    registryUrl: registryUrl,
-  });
+  const entry = await createLockEntry(
+    transformRegistryItem(
+      versionItem ?? registryItem,
+      componentsConfig,
+      namespace,
+    ),
+    cwd,
+    {
+      installedVersion: installVersion,
+      range,
+      registryDependencies: getDependencyEdges(versionItem ?? registryItem, {
+        namespace,
+        registryUrl,
+        registries,
+      }),
+      registryUrl,
+      namespace,
+    },
+    componentLocation.path,
+  );
 
-  await writeLockFile(cwd, updatedLockFile);
+  // The main file was located above, so the entry always exists
+  if (!entry) {
+    process.exit(1);
+  }
 
-  // 8. Success message
+  // 8. Update lock file (re-adding from another registry records the move)
+  await writeLockFile(
+    cwd,
+    updateComponentEntry(
+      lockFile,
+      component,
+      recordRegistryMigration(entry, lockFile.components[component]),
+    ),
+  );
+
+  // 9. Success message
   console.log(
     chalk.green(
-      `\n✓ Added ${component}@${currentVersion} with version tracking`,
+      `\n✓ Added ${component}@${installVersion} with version tracking`,
     ),
   );
-  console.log(chalk.gray(`  Checksum: ${checksum.substring(0, 20)}...`));
+  console.log(chalk.gray(`  Range:    ${range}`));
+  console.log(chalk.gray(`  Checksum: ${entry.checksum.substring(0, 20)}...`));
   console.log(chalk.gray(`  Location: ${componentLocation.path}`));
 
+  const extraFiles = Object.keys(entry.files ?? {}).filter(
+    (target) => path.join(cwd, target) !== componentLocation.path,
+  );
+  if (extraFiles.length > 0) {
+    console.log(chalk.gray(`  Also tracking: ${extraFiles.join(", ")}`));
+  }
+
+  if (addedDependencies.length > 0) {
+    console.log(
+      chalk.gray(
+        `  Dependencies: ${addedDependencies.map((dependency) => `${dependency.name}@${dependency.version}`).join(", ")}`,
+      ),
+    );
+  }
+
   if (options.scan) {
     console.log(
       chalk.yellow(
@@ -185,5 +545,15 @@ export async function addCommand(
   console.log(
     chalk.gray(`\nRun \`voidui diff ${component}\` to check for updates`),
   );
+
+  // 10. Run the postAdd hook on everything that was added
+  await runHook("postAdd", cwd, {
+    components: [
+      ...addedDependencies.map((dependency) => dependency.name),
+      component,
+    ],
+    files: [...addedFiles, ...Object.keys(entry.files ?? {})],
+  });
+
   console.log("");
 }
@@ -2,11 +2,13 @@ import path from "path";
 import chalk from "chalk";
 import { glob } from "glob";
 import type { ComponentChangelog } from "../types/changelog.js";
+import { readFile } from "fs/promises";
 import {
   fileExists,
   readJsonFile,
   writeJsonFile,
   readDir,
+  ensureDir,
 } from "../utils/file-operations.js";
 
 interface RegistryFile {
@@ -31,6 +33,8 @@ interface RegistryItem {
       changelog: ComponentChangelog;
       availableVersions: string[];
     };
+    version?: string;
+    partial?: boolean;
   };
 }
 
@@ -140,6 +144,30 @@ export async function augmentCommand(): Promise<void> {
     await writeJsonFile(registryItemPath, registryItem);
     console.log(chalk.green(`✓ Augmented: ${componentName}.json`));
     augmentedCount++;
+
+    // The build output is the current version; keep it for later builds
+    if (availableVersions.includes(changelog.currentVersion)) {
+      await writeItemSnapshot(
+        registryItem,
+        path.join(versionsDir, `${changelog.currentVersion}.json`),
+      );
+    }
+
+    // Write per-version artifacts (public/r/<name>/<version>.json)
+    const versionCount = await writeVersionArtifacts(
+      registryItem,
+      versionsDir,
+      availableVersions,
+      path.join(outputPath, componentName),
+    );
+
+    if (versionCount > 0) {
+      console.log(
+        chalk.green(
+          `✓ Wrote ${versionCount} version artifact(s): ${componentName}/*.json`,
+        ),
+      );
+    }
   }
 
   // Update main registry.json
@@ -166,3 +194,105 @@ export async function augmentCommand(): Promise<void> {
     ),
   );
 }
+
+/**
+ * Write a registry item for each snapshotted version of a component
+ * Versions with an item snapshot (`<version>.json`) are written as
+ * snapshotted; versions with only a `<version>.tsx` snapshot get just the
+ * main file and are marked partial, since their other files and
+ * dependencies are unknown
+ *
+ * @param registryItem - Augmented registry item (current version)
+ * @param versionsDir - Directory containing the version snapshots
+ * @param versions - Versions to write
+ * @param outputDir - Directory to write version artifacts to
+ * @returns Number of artifacts written
+ */
+async function writeVersionArtifacts(
+  registryItem: RegistryItem,
+  versionsDir: string,
+  versions: string[],
+  outputDir: string,
+): Promise<number> {
+  const mainFile = registryItem.files[findMainFileIndex(registryItem.files)];
+
+  if (!mainFile) {
+    return 0;
+  }
+
+  await ensureDir(outputDir);
+
+  let writtenCount = 0;
+
+  for (const version of versions) {
+    const snapshot = await readJsonFile<RegistryItem>(
+      path.join(versionsDir, `${version}.json`),
+    );
+    let versionItem: RegistryItem;
+
+    if (snapshot) {
+      versionItem = {
+        ...snapshot,
+        meta: { ...registryItem.meta, version },
+      };
+    } else {
+      let content: string;
+
+      try {
+        content = await readFile(
+          path.join(versionsDir, `${version}.tsx`),
+          "utf-8",
+        );
+      } catch {
+        console.warn(
+          chalk.yellow(
+            `⚠️  Could not read snapshot ${registryItem.name}@${version}`,
+          ),
+        );
+        continue;
+      }
+
+      versionItem = {
+        name: registryItem.name,
+        type: registryItem.type,
+        title: registryItem.title,
+        description: registryItem.description,
+        files: [{ ...mainFile, content }],
+        meta: { ...registryItem.meta, version, partial: true },
+      };
+    }
+
+    await writeJsonFile(path.join(outputDir, `${version}.json`), versionItem);
+    writtenCount++;
+  }
+
+  return writtenCount;
+}
+
+/**
+ * Snapshot the build output of the current version, unless already done
+ * Later builds only have the current version, so this is the only chance
+ * to record its files and dependencies
+ */
+async function writeItemSnapshot(
+  registryItem: RegistryItem,
+  snapshotPath: string,
+): Promise<void> {
+  if (await fileExists(snapshotPath)) {
+    return;
+  }
+
+  await writeJsonFile(snapshotPath, { ...registryItem, meta: undefined });
+}
+
+/**
+ * Find the main UI file of a registry item (the file that gets snapshotted)
+ */
+function findMainFileIndex(files: RegistryFile[]): number {
+  const index = files.findIndex(
+    (file) =>
+      file.type === "registry:ui" || file.path.includes("/components/ui/"),
+  );
+
+  return index === -1 && files.length > 0 ? 0 : index;
+}
@@ -6,29 +6,62 @@
 import path from "path";
 import chalk from "chalk";
 import { readFile } from "fs/promises";
-import { fileExists, readJsonFile } from "../utils/file-operations.js";
-import { locateComponent } from "../utils/component-locator.js";
-import { computeChecksum, compareChecksums } from "../utils/checksum.js";
+import {
+  locateComponent,
+  locateComponentFiles,
+} from "../utils/component-locator.js";
+import { checkComponentDrift } from "../utils/drift.js";
+import { readComponentsConfig } from "../utils/components-config.js";
+import { transformRegistryItem } from "../utils/transform.js";
 import {
   fetchRegistryItem,
-  extractComponentCode,
-  fetchComponentVersion,
+  resolveRegistryItemVersion,
 } from "../utils/registry.js";
 import {
   formatDiff,
   formatChangelog,
   formatChangelogSummary,
+  formatVersionLabel,
+  formatPackageDelta,
 } from "../utils/diff-formatter.js";
-import { lockFileSchema } from "../validators/lock-file.js";
-import type { LockFile } from "../types/lock-file.js";
-import type { ChangelogEntry } from "../types/changelog.js";
+import {
+  diffPackageDependencies,
+  hasKnownPackages,
+  hasPackageChanges,
+} from "../utils/package-delta.js";
+import { getEntriesBetweenVersions } from "../utils/changelog.js";
+import { readLockFile } from "../utils/lock-file.js";
+import { parseComponentName } from "../utils/component-spec.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+import {
+  getComponentRegistryUrl,
+  resolveComponentRegistryUrl,
+} from "../utils/config.js";
+import type { ComponentLockEntry, LockFile } from "../types/lock-file.js";
+import type { RegistryItem } from "../types/registry.js";
 
 interface DiffCommandOptions {
   code?: boolean;
   registry?: string;
+  offline?: boolean;
 }
 
-const DEFAULT_REGISTRY_URL = "https://voidui.dev/r";
+interface FileDiff {
+  /**
+   * File name used in the diff labels
+   */
+  fileName: string;
+
+  /**
+   * Content before (empty if the file did not exist)
+   */
+  fromContent: string;
+
+  /**
+   * Content after (empty if the file was removed)
+   */
+  toContent: string;
+}
 
 /**
  * Main diff command handler
@@ -44,8 +77,6 @@ export async function diffCommand(
   toVersion: string | undefined,
   options: DiffCommandOptions,
 ): Promise<void> {
-  const registryUrl = options.registry || DEFAULT_REGISTRY_URL;
-
   // Validate component name is provided
   if (!component) {
     console.error(chalk.red("❌ Component name is required"));
@@ -58,6 +89,14 @@ export async function diffCommand(
     process.exit(1);
   }
 
+  setOfflineMode(Boolean(options.offline));
+
+  const registryUrl = await resolveComponentRegistryUrl(
+    process.cwd(),
+    component,
+    options.registry,
+  );
+
   // Determine which mode to run
   if (fromVersion && toVersion) {
     // Mode 3: Compare two registry versions
@@ -65,7 +104,11 @@ export async function diffCommand(
       component,
       fromVersion,
       toVersion,
-      registryUrl,
+      getComponentRegistryUrl(
+        await readRecordedEntry(component),
+        registryUrl,
+        Boolean(options.registry),
+      ),
     );
   } else if (fromVersion && !toVersion) {
     // Invalid: only one version specified
@@ -88,7 +131,7 @@ export async function diffCommand(
  */
 async function compareLocalVsRegistry(
   component: string,
-  registryUrl: string,
+  defaultRegistryUrl: string,
   options: DiffCommandOptions,
 ): Promise<void> {
   const cwd = process.cwd();
@@ -107,39 +150,41 @@ async function compareLocalVsRegistry(
   }
 
   // 2. Read lock file if exists
-  const lockFilePath = path.join(cwd, "voidui.lock.json");
-  const lockFileExists = await fileExists(lockFilePath);
   let lockFile: LockFile | null = null;
-  let installedVersion: string | null = null;
-  let expectedChecksum: string | null = null;
-
-  if (lockFileExists) {
-    const rawLockFile = await readJsonFile<unknown>(lockFilePath);
-
-    if (rawLockFile) {
-      try {
-        const parsedLockFile = lockFileSchema.parse(rawLockFile);
-        lockFile = parsedLockFile;
-        const entry = parsedLockFile.components[component];
-
-        if (entry) {
-          installedVersion = entry.installedVersion;
-          expectedChecksum = entry.checksum;
-        }
-      } catch (error) {
-        console.error(
-          chalk.yellow(
-            "⚠️  Lock file is corrupted. Continuing without version tracking.",
-          ),
-        );
-      }
-    }
+
+  try {
+    lockFile = await readLockFile(cwd);
+  } catch (error) {
+    console.error(
+      chalk.yellow(
+        `⚠️  ${error instanceof Error ? error.message : error}\n   Continuing without version tracking.`,
+      ),
+    );
+  }
+
+  const lockEntry = lockFile?.components[component];
+  const installedVersion = lockEntry?.installedVersion ?? null;
+  const registryUrl = getComponentRegistryUrl(
+    lockEntry,
+    defaultRegistryUrl,
+    Boolean(options.registry),
+  );
+
+  if (lockEntry?.registryUrl && lockEntry.registryUrl !== registryUrl) {
+    console.log(
+      chalk.gray(
+        `Comparing against ${registryUrl} (installed from ${lockEntry.registryUrl})\n`,
+      ),
+    );
   }
 
-  // 3. Compute local file checksum
-  const actualChecksum = await computeChecksum(location.path);
-  const isModified =
-    expectedChecksum && !compareChecksums(expectedChecksum, actualChecksum);
+  // 3. Check tracked files for local modifications
+  const drift = lockEntry
+    ? await checkComponentDrift(component, lockEntry, cwd)
+    : [];
+  const isModified = drift.some((file) => file.state === "modified");
+  const isReformatted =
+    !isModified && drift.some((file) => file.state === "reformatted");
 
   // 4. Fetch registry metadata
   const registryItem = await fetchRegistryItem(component, registryUrl);
@@ -172,12 +217,19 @@ async function compareLocalVsRegistry(
 
   // 5. Display version information
   if (installedVersion) {
-    const modifiedText = isModified ? chalk.yellow(" (modified ⚠️ )") : "";
+    let modifiedText = "";
+
+    if (isModified) {
+      modifiedText = chalk.yellow(" (modified ⚠️ )");
+    } else if (isReformatted) {
+      modifiedText = chalk.gray(" (reformatted)");
+    }
+
     console.log(
       `Your version:  ${chalk.bold(installedVersion)}${modifiedText}`,
     );
   } else {
-    if (!lockFileExists) {
+    if (!lockFile) {
       console.log(
         chalk.yellow(
           "⚠️  No lock file found. Lock file will be created when you run:",
@@ -204,21 +256,36 @@ async function compareLocalVsRegistry(
       ),
     );
 
-    // Read local file content
-    const localContent = await readFile(location.path, "utf-8");
+    // Pair every local file with its latest content from the registry,
+    // rewritten to the project's import aliases as it would be installed
+    const { namespace } = parseComponentName(component);
+    const latestItem = transformRegistryItem(
+      registryItem,
+      await readComponentsConfig(cwd),
+      namespace,
+    );
+    const locations = await locateComponentFiles(latestItem, cwd, namespace);
+    const fileDiffs = await Promise.all(
+      locations.map(async (fileLocation, index) => ({
+        fileName: path.basename(fileLocation.path),
+        fromContent: fileLocation.exists
+          ? await readFile(fileLocation.path, "utf-8")
+          : "",
+        toContent: latestItem.files[index]?.content ?? "",
+      })),
+    );
 
-    // Get latest version content from registry
-    const latestContent = extractComponentCode(registryItem);
+    printFileDiffs(fileDiffs, installedVersion || "local", latestVersion);
 
-    // Generate and display diff
-    const diff = formatDiff(
-      localContent,
-      latestContent,
-      `${component}@${installedVersion || "local"}.tsx`,
-      `${component}@${latestVersion}.tsx`,
-    );
+    if (installedVersion && installedVersion !== latestVersion) {
+      await printInstalledPackageDelta(
+        component,
+        installedVersion,
+        registryItem,
+        registryUrl,
+      );
+    }
 
-    console.log(diff);
     console.log(""); // Empty line
     return;
   }
@@ -243,6 +310,13 @@ async function compareLocalVsRegistry(
       console.log(chalk.gray("No changelog entries found."));
     }
 
+    await printInstalledPackageDelta(
+      component,
+      installedVersion,
+      registryItem,
+      registryUrl,
+    );
+
     console.log(
       chalk.gray(
         `\nRun \`voidui diff ${component} --code\` to see code changes`,
@@ -344,79 +418,161 @@ async function compareRegistryVersions(
   console.log(changelog);
 
   // Try to fetch code for both versions and show diff
-  const fromContent = await fetchComponentVersion(
+  const fromItem = await resolveRegistryItemVersion(
     component,
     fromVersion,
     registryUrl,
   );
-  const toContent = await fetchComponentVersion(
+  const toItem = await resolveRegistryItemVersion(
     component,
     toVersion,
     registryUrl,
   );
 
-  if (fromContent && toContent) {
+  if (fromItem && toItem) {
     console.log(chalk.blue("\n📝 Code changes:\n"));
-    const diff = formatDiff(
-      fromContent,
-      toContent,
-      `${component}@${fromVersion}.tsx`,
-      `${component}@${toVersion}.tsx`,
-    );
-    console.log(diff);
+    printFileDiffs(pairRegistryFiles(fromItem, toItem), fromVersion, toVersion);
+    printPackageDelta(fromItem, toItem);
   } else {
     // Show note about why we can't show code diff
+    const missingVersions = [
+      !fromItem && fromVersion,
+      !toItem && toVersion,
+    ].filter(Boolean);
+
     console.log(
       chalk.gray(
-        "\nNote: Code diff for historical versions is not yet supported in production.",
+        `\nNote: Code for ${missingVersions.join(", ")} is not available from this registry.`,
       ),
     );
     console.log(
       chalk.gray(
-        "      This feature requires registry infrastructure for version endpoints.",
+        `      Expected at: ${registryUrl}/${parseComponentName(component).name}/<version>.json`,
+      ),
+    );
+    console.log(
+      chalk.gray(
+        "      Registry maintainers can publish versions with `voidui augment`.",
       ),
     );
-    if (registryUrl.includes("localhost")) {
-      console.log(
-        chalk.yellow(
-          "\n      For local testing, make sure version files exist at:",
-        ),
-      );
-      console.log(
-        chalk.gray(
-          `      registry/components/ui/${component}.versions/${fromVersion}.tsx`,
-        ),
-      );
-      console.log(
-        chalk.gray(
-          `      registry/components/ui/${component}.versions/${toVersion}.tsx`,
-        ),
-      );
-    }
   }
 
   console.log(""); // Empty line
 }
 
 /**
- * Get changelog entries between two versions
+ * Pair the files of two versions of a registry item by path
+ * Files added or removed between versions are diffed against empty content;
+ * partial artifacts only know their main file, so other files are skipped
+ */
+function pairRegistryFiles(
+  fromItem: RegistryItem,
+  toItem: RegistryItem,
+): FileDiff[] {
+  const isKnown = (item: RegistryItem, filePath: string) =>
+    !item.meta?.partial || item.files.some((file) => file.path === filePath);
+  const paths = [
+    ...new Set([
+      ...toItem.files.map((file) => file.path),
+      ...fromItem.files.map((file) => file.path),
+    ]),
+  ].filter(
+    (filePath) => isKnown(fromItem, filePath) && isKnown(toItem, filePath),
+  );
+
+  return paths.map((filePath) => ({
+    fileName: path.basename(filePath),
+    fromContent:
+      fromItem.files.find((file) => file.path === filePath)?.content ?? "",
+    toContent:
+      toItem.files.find((file) => file.path === filePath)?.content ?? "",
+  }));
+}
+
+/**
+ * Print the npm dependency changes from the installed version to the latest
+ * Skipped if the installed version is not available from the registry
+ */
+async function printInstalledPackageDelta(
+  component: string,
+  installedVersion: string,
+  latestItem: RegistryItem,
+  registryUrl: string,
+): Promise<void> {
+  const installedItem = await resolveRegistryItemVersion(
+    component,
+    installedVersion,
+    registryUrl,
+  );
+
+  if (installedItem) {
+    printPackageDelta(installedItem, latestItem);
+  }
+}
+
+/**
+ * Print added, changed and removed npm dependencies between two versions
+ * Skipped if either version doesn't record its dependencies
+ */
+function printPackageDelta(fromItem: RegistryItem, toItem: RegistryItem): void {
+  if (!hasKnownPackages(fromItem) || !hasKnownPackages(toItem)) {
+    return;
+  }
+
+  const delta = diffPackageDependencies(fromItem, toItem);
+
+  if (!hasPackageChanges(delta)) {
+    return;
+  }
+
+  console.log(chalk.blue("\n📦 Dependency changes:\n"));
+  console.log(formatPackageDelta(delta));
+}
+
+/**
+ * Print a unified diff per file
+ * Unchanged files are skipped when a component has more than one file
  */
-function getEntriesBetweenVersions(
-  entries: ChangelogEntry[],
+function printFileDiffs(
+  fileDiffs: FileDiff[],
   fromVersion: string,
   toVersion: string,
-): ChangelogEntry[] {
-  const fromIndex = entries.findIndex((e) => e.version === fromVersion);
-  const toIndex = entries.findIndex((e) => e.version === toVersion);
-
-  if (fromIndex === -1 || toIndex === -1) {
-    return [];
+): void {
+  const changedFiles =
+    fileDiffs.length > 1
+      ? fileDiffs.filter((file) => file.fromContent !== file.toContent)
+      : fileDiffs;
+
+  if (changedFiles.length === 0) {
+    console.log(chalk.gray("No code changes."));
+    return;
   }
 
-  // Entries are sorted newest first, extract range between versions
-  const start = Math.min(fromIndex, toIndex);
-  const end = Math.max(fromIndex, toIndex);
+  console.log(
+    changedFiles
+      .map((file) =>
+        formatDiff(
+          file.fromContent,
+          file.toContent,
+          formatVersionLabel(file.fileName, fromVersion),
+          formatVersionLabel(file.fileName, toVersion),
+        ),
+      )
+      .join("\n\n"),
+  );
+}
 
-  // Return entries in chronological order (oldest first)
-  return entries.slice(start, end + 1).reverse();
+/**
+ * Read the lock entry of a component, if the lock file can be read
+ * Mode 3 does not need the lock file, so an invalid one is ignored
+ */
+async function readRecordedEntry(
+  component: string,
+): Promise<ComponentLockEntry | undefined> {
+  try {
+    const lockFile = await readLockFile(process.cwd());
+    return lockFile?.components[component];
+  } catch {
+    return undefined;
+  }
 }
@@ -0,0 +1,127 @@
+/**
+ * Init command implementation
+ * Creates voidui.config.json from the project's components.json
+ */
+
+import path from "path";
+import chalk from "chalk";
+import { fileExists } from "../utils/file-operations.js";
+import {
+  aliasToDirectory,
+  readComponentsConfig,
+} from "../utils/components-config.js";
+import type { ComponentsConfig } from "../utils/components-config.js";
+import {
+  CONFIG_FILE_NAME,
+  DEFAULT_REGISTRY_URL,
+  writeConfig,
+} from "../utils/config.js";
+import { voiduiConfigSchema } from "../validators/config.js";
+import type { VoiduiConfig } from "../types/config.js";
+
+interface InitCommandOptions {
+  /**
+   * Default registry URL to write to the config
+   */
+  registry?: string;
+
+  /**
+   * Overwrite an existing config file
+   */
+  force?: boolean;
+}
+
+/**
+ * Main init command handler
+ * Writes voidui.config.json with the component directory from components.json
+ *
+ * @param options - Command options
+ */
+export async function initCommand(options: InitCommandOptions): Promise<void> {
+  const cwd = process.cwd();
+  const configPath = path.join(cwd, CONFIG_FILE_NAME);
+
+  console.log(chalk.blue(`\n⚙️  Creating ${CONFIG_FILE_NAME}...\n`));
+
+  // 1. Never overwrite an existing config by accident
+  if ((await fileExists(configPath)) && !options.force) {
+    console.error(chalk.red(`❌ ${CONFIG_FILE_NAME} already exists`));
+    console.error(chalk.gray("   Use --force to overwrite it"));
+    process.exit(1);
+  }
+
+  // 2. Inspect components.json for where components live
+  const componentsConfig = await readComponentsConfig(cwd);
+
+  if (!componentsConfig) {
+    console.log(
+      chalk.yellow("⚠️  No components.json found. Using default paths."),
+    );
+  }
+
+  const config: VoiduiConfig = {
+    registry: (options.registry || DEFAULT_REGISTRY_URL).replace(/\/+$/, ""),
+    componentDirectories: [
+      await detectComponentDirectory(cwd, componentsConfig),
+    ],
+    updateStrategy: "prompt",
+    checksumMode: "exact",
+    hooks: {},
+  };
+
+  const result = voiduiConfigSchema.safeParse(config);
+
+  if (!result.success) {
+    console.error(chalk.red("❌ Invalid configuration:"));
+    for (const issue of result.error.issues) {
+      console.error(
+        chalk.gray(
+          `   - ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+        ),
+      );
+    }
+    process.exit(1);
+  }
+
+  // 3. Write config
+  await writeConfig(cwd, result.data);
+
+  // 4. Success message
+  console.log(chalk.green(`✓ Created ${CONFIG_FILE_NAME}`));
+  console.log(chalk.gray(`  Registry:        ${config.registry}`));
+  console.log(
+    chalk.gray(`  Components:      ${config.componentDirectories?.join(", ")}`),
+  );
+  console.log(chalk.gray(`  Update strategy: ${config.updateStrategy}`));
+  console.log(chalk.gray(`  Checksum mode:   ${config.checksumMode}`));
+  console.log(
+    chalk.gray(
+      `\nCommit ${CONFIG_FILE_NAME} so everyone on the project shares these settings`,
+    ),
+  );
+  console.log("");
+}
+
+/**
+ * Find the project-relative directory UI components are installed to
+ * Uses the ui (or components) alias, preferring a `src/` variant that exists
+ */
+async function detectComponentDirectory(
+  cwd: string,
+  componentsConfig: ComponentsConfig | null,
+): Promise<string> {
+  const aliases = componentsConfig?.aliases;
+  const directory = aliasToDirectory(
+    aliases?.ui ??
+      (aliases?.components ? `${aliases.components}/ui` : "components/ui"),
+  );
+
+  if (
+    !(await fileExists(path.join(cwd, directory))) &&
+    (await fileExists(path.join(cwd, "src", directory)))
+  ) {
+    return `src/${directory}`;
+  }
+
+  return directory;
+}
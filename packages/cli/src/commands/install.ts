@@ -0,0 +1,289 @@
+/**
+ * Install command implementation
+ * Restores every component in voidui.lock.json at its locked version
+ */
+
+import chalk from "chalk";
+import { checkComponentDrift } from "../utils/drift.js";
+import {
+  fetchRegistryItem,
+  resolveRegistryItemVersion,
+} from "../utils/registry.js";
+import { execShadcnAdd } from "../utils/shadcn.js";
+import { installRegistryItem } from "../utils/installer.js";
+import { parseComponentName } from "../utils/component-spec.js";
+import { readLockFile } from "../utils/lock-file.js";
+import { EXIT_CODES } from "../utils/exit-codes.js";
+import {
+  getComponentRegistryUrl,
+  resolveRegistryUrl,
+} from "../utils/config.js";
+import { runHook } from "../utils/hooks.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+import type { ComponentLockEntry } from "../types/lock-file.js";
+
+interface InstallCommandOptions {
+  /**
+   * Restore with `npx shadcn@latest add` instead of writing files directly
+   */
+  shadcn?: boolean;
+
+  /**
+   * Registry URL, overriding the registry recorded for each component
+   */
+  registry?: string;
+
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
+
+type InstallOutcome = "restored" | "present" | "failed";
+
+interface InstallResult {
+  /**
+   * Component name
+   */
+  component: string;
+
+  /**
+   * What happened to the component
+   */
+  outcome: InstallOutcome;
+
+  /**
+   * Reason for failure
+   */
+  message?: string;
+
+  /**
+   * Project-relative files that were restored
+   */
+  files?: string[];
+}
+
+/**
+ * Main install command handler
+ * Materialises missing components at their locked version and verifies
+ * the written content against the recorded checksum
+ *
+ * @param options - Command options
+ */
+export async function installCommand(
+  options: InstallCommandOptions,
+): Promise<void> {
+  const cwd = process.cwd();
+  const registryUrl = await resolveRegistryUrl(cwd, options.registry);
+
+  if (options.offline && options.shadcn) {
+    console.error(chalk.red("❌ --offline can't be used with --shadcn"));
+    console.error(
+      chalk.gray("   The shadcn CLI always fetches from the registry"),
+    );
+    process.exit(1);
+  }
+
+  setOfflineMode(Boolean(options.offline));
+
+  // 1. Read lock file
+  const lockFile = await readLockFile(cwd);
+
+  if (!lockFile) {
+    console.error(chalk.red("❌ No lock file found"));
+    console.error(
+      chalk.gray(
+        "\n   voidui install restores components from voidui.lock.json",
+      ),
+    );
+    process.exit(1);
+  }
+
+  const componentNames = Object.keys(lockFile.components).sort();
+
+  console.log(
+    chalk.blue(
+      `\n📦 Installing ${componentNames.length} component(s) from voidui.lock.json...\n`,
+    ),
+  );
+
+  // 2. Restore components one at a time (they may share files)
+  const results: InstallResult[] = [];
+
+  for (const component of componentNames) {
+    const entry = lockFile.components[component]!;
+
+    try {
+      results.push(
+        await installComponent(
+          component,
+          entry,
+          getComponentRegistryUrl(
+            entry,
+            registryUrl,
+            Boolean(options.registry),
+          ),
+          cwd,
+          Boolean(options.shadcn),
+        ),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`❌ ${component}: ${message}`));
+      results.push({ component, outcome: "failed", message });
+    }
+  }
+
+  // 3. Run the postInstall hook on restored files
+  const restored = results.filter((result) => result.outcome === "restored");
+
+  await runHook("postInstall", cwd, {
+    components: restored.map((result) => result.component),
+    files: restored.flatMap((result) => result.files ?? []),
+  });
+
+  // 4. Summary
+  const count = (outcome: InstallOutcome) =>
+    results.filter((result) => result.outcome === outcome).length;
+
+  console.log(
+    chalk.gray(
+      `\n${count("restored")} restored, ${count("present")} already present, ${count("failed")} failed`,
+    ),
+  );
+
+  if (count("failed") > 0) {
+    console.error(chalk.red("\n❌ Some components could not be restored:"));
+    for (const result of results.filter((r) => r.outcome === "failed")) {
+      console.error(chalk.red(`   - ${result.component}: ${result.message}`));
+    }
+    console.log("");
+    process.exit(EXIT_CODES.ERROR);
+  }
+
+  console.log(chalk.green("\n✓ All components match voidui.lock.json\n"));
+}
+
+/**
+ * Restore a single component if any of its files are missing
+ *
+ * @param component - Component name
+ * @param entry - Lock entry
+ * @param registryUrl - Registry the component was installed from
+ * @param cwd - Current working directory
+ * @param useShadcn - Restore via the shadcn CLI instead of writing files
+ * @returns Install result
+ */
+async function installComponent(
+  component: string,
+  entry: ComponentLockEntry,
+  registryUrl: string,
+  cwd: string,
+  useShadcn: boolean,
+): Promise<InstallResult> {
+  const version = entry.installedVersion;
+  const drift = await checkComponentDrift(component, entry, cwd);
+
+  if (drift.every((file) => file.state !== "missing")) {
+    console.log(chalk.gray(`• ${component}@${version} already present`));
+    return { component, outcome: "present" };
+  }
+
+  // shadcn overwrites every file of the component, so never restore over local work
+  const modifiedFiles = drift.filter((file) => file.state === "modified");
+
+  if (useShadcn && modifiedFiles.length > 0) {
+    return {
+      component,
+      outcome: "failed",
+      message: `Some files are missing and others have local modifications (${modifiedFiles.map((file) => file.target).join(", ")})`,
+    };
+  }
+
+  // 1. Check the locked version is still published
+  const registryItem = await fetchRegistryItem(component, registryUrl);
+  const versioning = registryItem?.meta?.versioning;
+
+  if (!registryItem || !versioning) {
+    return {
+      component,
+      outcome: "failed",
+      message: `Not found in registry ${registryUrl}`,
+    };
+  }
+
+  if (
+    version !== versioning.currentVersion &&
+    !versioning.availableVersions.includes(version)
+  ) {
+    return {
+      component,
+      outcome: "failed",
+      message: `Version ${version} is no longer available`,
+    };
+  }
+
+  // 2. Install the locked version
+  if (useShadcn) {
+    await execShadcnAdd(component, {
+      registryUrl,
+      // The current version is served from the main item
+      version: version !== versioning.currentVersion ? version : undefined,
+      silent: true,
+    });
+  } else {
+    const versionItem = await resolveRegistryItemVersion(
+      component,
+      version,
+      registryUrl,
+    );
+
+    if (!versionItem) {
+      return {
+        component,
+        outcome: "failed",
+        message: `Version ${version} is not available from ${registryUrl}`,
+      };
+    }
+
+    // Only missing files are written, so local changes to the rest survive
+    await installRegistryItem(versionItem, cwd, {
+      overwrite: false,
+      silent: true,
+      namespace: parseComponentName(component).namespace,
+    });
+  }
+
+  // 3. Verify the restored files (files that were present keep their state)
+  const restoredTargets = new Set(
+    drift.filter((file) => file.state === "missing").map((file) => file.target),
+  );
+  const installedDrift = (
+    await checkComponentDrift(component, entry, cwd)
+  ).filter((file) => restoredTargets.has(file.target));
+  const missingFiles = installedDrift.filter(
+    (file) => file.state === "missing",
+  );
+  const mismatchedFiles = installedDrift.filter(
+    (file) => file.state === "modified" || file.state === "reformatted",
+  );
+
+  if (missingFiles.length > 0) {
+    return {
+      component,
+      outcome: "failed",
+      message: `Not installed at expected location ${missingFiles.map((file) => file.path).join(", ")}`,
+    };
+  }
+
+  if (mismatchedFiles.length > 0) {
+    return {
+      component,
+      outcome: "failed",
+      message: `Checksum mismatch for ${mismatchedFiles.map((file) => file.target).join(", ")}`,
+    };
+  }
+
+  console.log(chalk.green(`✓ ${component}@${version} restored`));
+  return { component, outcome: "restored", files: [...restoredTargets] };
+}
@@ -0,0 +1,69 @@
+/**
+ * List command implementation
+ * Shows every component available in the registry
+ */
+
+import chalk from "chalk";
+import {
+  loadCatalogue,
+  printCatalogue,
+  toCatalogueJson,
+} from "../utils/catalogue.js";
+import { resolveRegistryUrl } from "../utils/config.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+
+interface ListCommandOptions {
+  /**
+   * Print machine-readable JSON instead of a table
+   */
+  json?: boolean;
+
+  /**
+   * Registry URL
+   */
+  registry?: string;
+
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
+
+/**
+ * Main list command handler
+ * Fetches the registry index and marks components installed in this project
+ *
+ * @param options - Command options
+ */
+export async function listCommand(options: ListCommandOptions): Promise<void> {
+  const cwd = process.cwd();
+  const registryUrl = await resolveRegistryUrl(cwd, options.registry);
+
+  setOfflineMode(Boolean(options.offline));
+
+  const entries = await loadCatalogue(registryUrl, cwd);
+
+  if (!entries) {
+    console.error(chalk.red("❌ Registry index not found"));
+    console.error(chalk.gray(`   Tried: ${registryUrl}/registry.json`));
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ components: toCatalogueJson(entries) }, null, 2),
+    );
+    return;
+  }
+
+  const installedCount = entries.filter(
+    (entry) => entry.installedVersion,
+  ).length;
+
+  console.log(chalk.blue(`\n📚 ${entries.length} component(s) available\n`));
+  printCatalogue(entries);
+  console.log(
+    chalk.gray(`\n${installedCount} installed · Registry: ${registryUrl}`),
+  );
+  console.log(chalk.gray("Run `voidui add <component>` to install one\n"));
+}
@@ -0,0 +1,240 @@
+/**
+ * Remove command implementation
+ * Stops tracking a component and optionally deletes its files
+ */
+
+import chalk from "chalk";
+import prompts from "prompts";
+import { checkComponentDrift } from "../utils/drift.js";
+import { fetchRegistryItem } from "../utils/registry.js";
+import { getDependencyEdges } from "../utils/dependency-graph.js";
+import { parseComponentName } from "../utils/component-spec.js";
+import { removeFile } from "../utils/file-operations.js";
+import {
+  readLockFile,
+  writeLockFile,
+  removeComponentEntry,
+  getComponentEntry,
+} from "../utils/lock-file.js";
+import {
+  getComponentRegistryUrl,
+  readConfig,
+  resolveRegistryUrl,
+} from "../utils/config.js";
+import { runHook } from "../utils/hooks.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+import type { LockFile } from "../types/lock-file.js";
+
+interface RemoveCommandOptions {
+  /**
+   * Delete files without asking for confirmation
+   */
+  yes?: boolean;
+
+  /**
+   * Only remove the lock entry, never delete files
+   */
+  keepFiles?: boolean;
+
+  /**
+   * Registry URL, overriding the registry recorded for each component
+   */
+  registry?: string;
+
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
+
+/**
+ * Main remove command handler
+ * Drops the lock entry and, with confirmation, deletes the component files
+ *
+ * @param component - Component name
+ * @param options - Command options
+ */
+export async function removeCommand(
+  component: string | undefined,
+  options: RemoveCommandOptions,
+): Promise<void> {
+  const cwd = process.cwd();
+  const registryUrl = await resolveRegistryUrl(cwd, options.registry);
+
+  setOfflineMode(Boolean(options.offline));
+
+  // Validate component name
+  if (!component) {
+    console.error(chalk.red("❌ Component name is required"));
+    console.error(chalk.gray("\nUsage:"));
+    console.error(chalk.gray("  voidui remove <component>"));
+    console.error(chalk.gray("  voidui remove <component> --keep-files"));
+    console.error(chalk.gray("  voidui remove <component> --yes"));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue(`\n🗑️  Removing ${component}...\n`));
+
+  // 1. Read lock file
+  const lockFile = await readLockFile(cwd);
+  const entry = lockFile ? getComponentEntry(lockFile, component) : null;
+
+  if (!lockFile || !entry) {
+    console.error(
+      chalk.red(`❌ Component "${component}" is not tracked in lock file`),
+    );
+    process.exit(1);
+  }
+
+  // 2. Check local file state
+  // Files also tracked by other components (e.g. shared lib helpers) are kept
+  const sharedTargets = new Set(
+    Object.entries(lockFile.components)
+      .filter(([name]) => name !== component)
+      .flatMap(([, otherEntry]) => Object.keys(otherEntry.files ?? {})),
+  );
+  const files = (await checkComponentDrift(component, entry, cwd)).filter(
+    (file) => file.state !== "missing" && !sharedTargets.has(file.target),
+  );
+  const modifiedFiles = files.filter((file) => file.state === "modified");
+  const isModified = modifiedFiles.length > 0;
+
+  // 3. Check whether other tracked components depend on this one
+  console.log(chalk.gray("Checking dependents..."));
+  const dependents = await findDependents(
+    component,
+    lockFile,
+    registryUrl,
+    Boolean(options.registry),
+    (await readConfig(cwd)).registries,
+  );
+
+  // 4. Warnings
+  if (isModified) {
+    console.log(
+      chalk.yellow("⚠️  Local modifications detected in this component"),
+    );
+    for (const file of modifiedFiles) {
+      console.log(chalk.gray(`   ${file.path}`));
+    }
+  }
+
+  if (dependents.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  ${dependents.length} tracked component(s) depend on ${component}:`,
+      ),
+    );
+    for (const dependent of dependents) {
+      console.log(chalk.gray(`   - ${dependent}`));
+    }
+  }
+
+  // 5. Delete the component files if confirmed
+  let deleted = false;
+
+  if (files.length > 0 && !options.keepFiles) {
+    let shouldDelete = Boolean(options.yes);
+
+    if (!shouldDelete && process.stdin.isTTY) {
+      const response = await prompts({
+        type: "confirm",
+        name: "delete",
+        message:
+          files.length === 1
+            ? `Delete ${files[0]!.path}?`
+            : `Delete ${files.length} files (${files.map((file) => file.target).join(", ")})?`,
+        // Default to keeping files that would lose work or break dependents
+        initial: !isModified && dependents.length === 0,
+      });
+
+      shouldDelete = response.delete ?? false;
+    }
+
+    if (shouldDelete) {
+      for (const file of files) {
+        await removeFile(file.path);
+      }
+      deleted = true;
+    }
+  }
+
+  // 6. Update lock file
+  await writeLockFile(cwd, removeComponentEntry(lockFile, component));
+
+  // 7. Success message
+  console.log(chalk.green(`\n✓ Removed ${component} from voidui.lock.json`));
+
+  for (const file of files) {
+    console.log(chalk.gray(`  ${deleted ? "Deleted" : "Kept"}: ${file.path}`));
+  }
+
+  await runHook("postRemove", cwd, {
+    components: [component],
+    files: deleted ? files.map((file) => file.target) : [],
+  });
+
+  console.log("");
+}
+
+/**
+ * Find tracked components that depend on the component
+ * Uses the dependency edges recorded in the lock file, and the registry
+ * item's `registryDependencies` for entries without recorded edges
+ *
+ * @param component - Component being removed
+ * @param lockFile - Lock file
+ * @param registryUrl - Registry for entries without a recorded one
+ * @param isOverride - Whether registryUrl came from the --registry flag
+ * @param registries - Named registries from voidui.config.json
+ * @returns Names of dependent components
+ */
+async function findDependents(
+  component: string,
+  lockFile: LockFile,
+  registryUrl: string,
+  isOverride: boolean,
+  registries: Record<string, string> | undefined,
+): Promise<string[]> {
+  const otherComponents = Object.keys(lockFile.components).filter(
+    (name) => name !== component,
+  );
+
+  const results = await Promise.all(
+    otherComponents.map(async (name) => {
+      const edges = lockFile.components[name]?.registryDependencies;
+
+      if (edges) {
+        return component in edges ? name : null;
+      }
+
+      try {
+        const dependentRegistryUrl = getComponentRegistryUrl(
+          lockFile.components[name],
+          registryUrl,
+          isOverride,
+        );
+        const registryItem = await fetchRegistryItem(
+          name,
+          dependentRegistryUrl,
+        );
+        const dependencyEdges = registryItem
+          ? getDependencyEdges(registryItem, {
+              namespace: parseComponentName(name).namespace,
+              registryUrl: dependentRegistryUrl,
+              registries,
+            })
+          : undefined;
+
+        return dependencyEdges && component in dependencyEdges ? name : null;
+      } catch {
+        console.warn(
+          chalk.yellow(`⚠️  Could not check dependencies of ${name}`),
+        );
+        return null;
+      }
+    }),
+  );
+
+  return results.filter((name): name is string => name !== null);
+}
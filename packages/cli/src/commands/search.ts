@@ -0,0 +1,99 @@
+/**
+ * Search command implementation
+ * Filters the registry catalogue by name, description and changelog
+ */
+
+import chalk from "chalk";
+import {
+  loadCatalogue,
+  printCatalogue,
+  toCatalogueJson,
+} from "../utils/catalogue.js";
+import type { CatalogueEntry } from "../utils/catalogue.js";
+import { resolveRegistryUrl } from "../utils/config.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+
+interface SearchCommandOptions {
+  /**
+   * Print machine-readable JSON instead of a table
+   */
+  json?: boolean;
+
+  /**
+   * Registry URL
+   */
+  registry?: string;
+
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
+
+/**
+ * Main search command handler
+ *
+ * @param term - Search term (case-insensitive)
+ * @param options - Command options
+ */
+export async function searchCommand(
+  term: string | undefined,
+  options: SearchCommandOptions,
+): Promise<void> {
+  const cwd = process.cwd();
+  const registryUrl = await resolveRegistryUrl(cwd, options.registry);
+
+  setOfflineMode(Boolean(options.offline));
+
+  // Validate search term
+  if (!term) {
+    console.error(chalk.red("❌ Search term is required"));
+    console.error(chalk.gray("\nUsage:"));
+    console.error(chalk.gray("  voidui search <term>"));
+    process.exit(1);
+  }
+
+  const entries = await loadCatalogue(registryUrl, cwd);
+
+  if (!entries) {
+    console.error(chalk.red("❌ Registry index not found"));
+    console.error(chalk.gray(`   Tried: ${registryUrl}/registry.json`));
+    process.exit(1);
+  }
+
+  const matches = entries.filter((entry) => matchesTerm(entry, term));
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ components: toCatalogueJson(matches) }, null, 2),
+    );
+    return;
+  }
+
+  if (matches.length === 0) {
+    console.log(chalk.yellow(`\nNo components match "${term}"\n`));
+    return;
+  }
+
+  console.log(
+    chalk.blue(`\n🔎 ${matches.length} component(s) matching "${term}"\n`),
+  );
+  printCatalogue(matches);
+  console.log("");
+}
+
+/**
+ * Check whether a catalogue entry matches a search term
+ * Looks at name, title, description and changelog descriptions
+ */
+function matchesTerm(entry: CatalogueEntry, term: string): boolean {
+  const needle = term.toLowerCase();
+  const changelogText =
+    entry.item.meta?.versioning?.changelog.entries.flatMap((changelogEntry) =>
+      changelogEntry.changes.map((change) => change.description),
+    ) ?? [];
+
+  return [entry.name, entry.title, entry.description, ...changelogText].some(
+    (text) => text?.toLowerCase().includes(needle),
+  );
+}
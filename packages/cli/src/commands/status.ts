@@ -0,0 +1,351 @@
+/**
+ * Status command implementation
+ * Reports version and modification state for every tracked component
+ */
+
+import chalk from "chalk";
+import { checkComponentDrift } from "../utils/drift.js";
+import { fetchRegistryItem } from "../utils/registry.js";
+import { readLockFile } from "../utils/lock-file.js";
+import { getCrossedEntries, hasBreakingChanges } from "../utils/changelog.js";
+import { formatTable } from "../utils/table.js";
+import { resolveWantedVersion } from "../utils/semver.js";
+import {
+  getComponentRegistryUrl,
+  resolveRegistryUrl,
+} from "../utils/config.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+import type { ComponentLockEntry } from "../types/lock-file.js";
+
+interface StatusCommandOptions {
+  /**
+   * Print machine-readable JSON instead of a table
+   */
+  json?: boolean;
+
+  /**
+   * Registry URL, overriding the registry recorded for each component
+   */
+  registry?: string;
+
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
+
+interface ComponentStatus {
+  /**
+   * Component name
+   */
+  component: string;
+
+  /**
+   * Version recorded in the lock file
+   */
+  installedVersion: string;
+
+  /**
+   * Semver range recorded in the lock file, if any
+   */
+  range: string | null;
+
+  /**
+   * Newest version within the range (null if unavailable)
+   */
+  wantedVersion: string | null;
+
+  /**
+   * Latest version available in the registry (null if unavailable)
+   */
+  latestVersion: string | null;
+
+  /**
+   * Whether a newer version is available within the range
+   */
+  outdated: boolean;
+
+  /**
+   * Whether any tracked file differs from its installed checksum
+   * (null if a tracked file could not be found)
+   */
+  modified: boolean | null;
+
+  /**
+   * Whether some tracked files differ only in formatting
+   */
+  reformatted: boolean;
+
+  /**
+   * Project-relative paths of modified, reformatted or missing files
+   */
+  changedFiles: string[];
+
+  /**
+   * Whether updating to the wanted version crosses a breaking change
+   */
+  breaking: boolean;
+
+  /**
+   * Registry the component is checked against
+   */
+  registryUrl: string;
+
+  /**
+   * Error message if the registry could not be queried
+   */
+  error?: string;
+}
+
+/**
+ * Main status command handler
+ * Checks every component in voidui.lock.json against its registry
+ *
+ * @param options - Command options
+ */
+export async function statusCommand(
+  options: StatusCommandOptions,
+): Promise<void> {
+  const cwd = process.cwd();
+  const registryUrl = await resolveRegistryUrl(cwd, options.registry);
+
+  setOfflineMode(Boolean(options.offline));
+
+  // 1. Read lock file
+  const lockFile = await readLockFile(cwd);
+
+  if (!lockFile) {
+    console.error(chalk.red("❌ No lock file found"));
+    console.error(chalk.gray("\n   Lock file will be created when you run:"));
+    console.error(chalk.gray("   voidui add <component>"));
+    process.exit(1);
+  }
+
+  const componentNames = Object.keys(lockFile.components).sort();
+
+  if (componentNames.length === 0) {
+    if (options.json) {
+      console.log(JSON.stringify({ components: [] }, null, 2));
+    } else {
+      console.log(chalk.gray("\nNo components are tracked yet.\n"));
+    }
+    return;
+  }
+
+  if (!options.json) {
+    console.log(
+      chalk.blue(`\n📊 Checking ${componentNames.length} component(s)...\n`),
+    );
+  }
+
+  // 2. Check all components concurrently
+  const statuses = await Promise.all(
+    componentNames.map((component) =>
+      getComponentStatus(
+        component,
+        lockFile.components[component]!,
+        getComponentRegistryUrl(
+          lockFile.components[component],
+          registryUrl,
+          Boolean(options.registry),
+        ),
+        cwd,
+      ),
+    ),
+  );
+
+  // 3. Print results
+  if (options.json) {
+    console.log(JSON.stringify({ components: statuses }, null, 2));
+    return;
+  }
+
+  printStatusTable(statuses);
+}
+
+/**
+ * Collect the status of a single tracked component
+ * Never throws: registry failures are reported in the `error` field
+ */
+async function getComponentStatus(
+  component: string,
+  entry: ComponentLockEntry,
+  registryUrl: string,
+  cwd: string,
+): Promise<ComponentStatus> {
+  // Local state does not depend on the registry
+  const drift = await checkComponentDrift(component, entry, cwd);
+  const modified = drift.some((file) => file.state === "missing")
+    ? null
+    : drift.some((file) => file.state === "modified");
+
+  const status: ComponentStatus = {
+    component,
+    installedVersion: entry.installedVersion,
+    range: entry.range ?? null,
+    wantedVersion: null,
+    latestVersion: null,
+    outdated: false,
+    modified,
+    reformatted: drift.some((file) => file.state === "reformatted"),
+    changedFiles: drift
+      .filter((file) => file.state !== "unchanged")
+      .map((file) => file.target),
+    breaking: false,
+    registryUrl,
+  };
+
+  try {
+    const registryItem = await fetchRegistryItem(component, registryUrl);
+    const versioning = registryItem?.meta?.versioning;
+
+    if (!registryItem) {
+      return { ...status, error: "Not found in registry" };
+    }
+
+    if (!versioning) {
+      return { ...status, error: "No version tracking" };
+    }
+
+    const latestVersion = versioning.currentVersion;
+    const wantedVersion = entry.range
+      ? (resolveWantedVersion(
+          [...new Set([latestVersion, ...versioning.availableVersions])],
+          entry.range,
+        ) ?? entry.installedVersion)
+      : latestVersion;
+
+    const crossedEntries = getCrossedEntries(
+      versioning.changelog.entries,
+      entry.installedVersion,
+      wantedVersion,
+    );
+
+    return {
+      ...status,
+      wantedVersion,
+      latestVersion,
+      outdated: wantedVersion !== entry.installedVersion,
+      breaking: hasBreakingChanges(crossedEntries),
+    };
+  } catch (error) {
+    return {
+      ...status,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Print component statuses as a table with a summary line
+ */
+function printStatusTable(statuses: ComponentStatus[]): void {
+  const rows = statuses.map((status) => [
+    status.component,
+    status.installedVersion,
+    formatWanted(status),
+    formatLatest(status),
+    formatModified(status),
+    status.breaking ? chalk.red.bold("BREAKING") : "",
+    chalk.gray(status.registryUrl),
+  ]);
+
+  console.log(
+    formatTable(
+      [
+        "Component",
+        "Installed",
+        "Wanted",
+        "Latest",
+        "Modified",
+        "Breaking",
+        "Registry",
+      ],
+      rows,
+    ),
+  );
+
+  // Errors are printed below the table to keep columns readable
+  const failed = statuses.filter((status) => status.error);
+
+  if (failed.length > 0) {
+    console.log("");
+    for (const status of failed) {
+      console.log(chalk.red(`❌ ${status.component}: ${status.error}`));
+    }
+  }
+
+  const outdatedCount = statuses.filter((status) => status.outdated).length;
+  const pastRangeCount = statuses.filter(
+    (status) =>
+      status.latestVersion && status.wantedVersion !== status.latestVersion,
+  ).length;
+  const modifiedCount = statuses.filter((status) => status.modified).length;
+
+  console.log("");
+  if (outdatedCount > 0) {
+    console.log(
+      chalk.yellow(`${outdatedCount} component(s) can be updated.`) +
+        chalk.gray(" Run `voidui update <component>` to update."),
+    );
+  } else if (failed.length === 0) {
+    console.log(chalk.green("✓ All components are up to date"));
+  }
+
+  if (pastRangeCount > 0) {
+    console.log(
+      chalk.gray(
+        `${pastRangeCount} component(s) have newer versions outside their range. Use \`voidui update <component> --latest\`.`,
+      ),
+    );
+  }
+
+  if (modifiedCount > 0) {
+    console.log(
+      chalk.gray(`${modifiedCount} component(s) have local modifications.`),
+    );
+  }
+
+  console.log("");
+}
+
+/**
+ * Format the wanted version column
+ */
+function formatWanted(status: ComponentStatus): string {
+  if (!status.wantedVersion) {
+    return chalk.red("unknown");
+  }
+
+  return status.outdated
+    ? chalk.yellow(status.wantedVersion)
+    : chalk.green(status.wantedVersion);
+}
+
+/**
+ * Format the latest version column
+ */
+function formatLatest(status: ComponentStatus): string {
+  if (!status.latestVersion) {
+    return chalk.red("unknown");
+  }
+
+  return status.latestVersion === status.installedVersion
+    ? chalk.green(status.latestVersion)
+    : chalk.yellow(status.latestVersion);
+}
+
+/**
+ * Format the modified column
+ */
+function formatModified(status: ComponentStatus): string {
+  if (status.modified === null) {
+    return chalk.red("missing");
+  }
+
+  if (status.modified) {
+    return chalk.yellow("yes");
+  }
+
+  return status.reformatted ? chalk.gray("reformatted") : chalk.gray("no");
+}
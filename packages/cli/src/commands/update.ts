@@ -7,21 +7,86 @@ import path from "path";
 import chalk from "chalk";
 import prompts from "prompts";
 import { readFile, writeFile } from "fs/promises";
-import { locateComponent } from "../utils/component-locator.js";
-import { computeChecksum, compareChecksums } from "../utils/checksum.js";
+import { locateComponentFiles } from "../utils/component-locator.js";
+import type { ComponentFileLocation } from "../utils/component-locator.js";
+import {
+  computeChecksum,
+  computeContentChecksum,
+  computeSemanticChecksum,
+  compareChecksums,
+} from "../utils/checksum.js";
+import {
+  checkComponentDrift,
+  computeFileChecksums,
+  computeSemanticFileChecksums,
+} from "../utils/drift.js";
+import type { FileDrift } from "../utils/drift.js";
+import { ensureDir } from "../utils/file-operations.js";
+import { readComponentsConfig } from "../utils/components-config.js";
+import { transformRegistryItem } from "../utils/transform.js";
+import { readBaseContent, storeBaseContents } from "../utils/base-cache.js";
 import {
   fetchRegistryItem,
-  fetchComponentVersion,
-  extractComponentCode,
+  findMainFile,
+  resolveRegistryItemVersion,
 } from "../utils/registry.js";
 import {
   readLockFile,
   writeLockFile,
   updateComponentEntry,
   getComponentEntry,
+  recordRegistryMigration,
 } from "../utils/lock-file.js";
 import { threeWayMerge, formatMergeMessage } from "../utils/merge.js";
-import { formatDiff } from "../utils/diff-formatter.js";
+import {
+  formatDiff,
+  formatChangelogSummary,
+  formatVersionLabel,
+  formatPackageDelta,
+} from "../utils/diff-formatter.js";
+import { getCrossedEntries } from "../utils/changelog.js";
+import {
+  diffPackageDependencies,
+  hasKnownPackages,
+  hasPackageChanges,
+} from "../utils/package-delta.js";
+import {
+  detectPackageManager,
+  formatInstallCommand,
+  getMissingPackages,
+  installPackages,
+} from "../utils/package-manager.js";
+import { EXIT_CODES } from "../utils/exit-codes.js";
+import { formatTable } from "../utils/table.js";
+import {
+  parseComponentName,
+  parseComponentSpec,
+} from "../utils/component-spec.js";
+import type { ComponentSpec } from "../utils/component-spec.js";
+import {
+  compareVersions,
+  defaultRangeFor,
+  resolveWantedVersion,
+  satisfiesRange,
+} from "../utils/semver.js";
+import {
+  findUnsatisfiedDependencies,
+  getDependencyEdges,
+} from "../utils/dependency-graph.js";
+import {
+  getComponentRegistryUrl,
+  readConfig,
+  resolveRegistryUrl,
+} from "../utils/config.js";
+import { runHook } from "../utils/hooks.js";
+import { setOfflineMode } from "../utils/http-cache.js";
+import type { ComponentLockEntry, LockFile } from "../types/lock-file.js";
+import type { RegistryItem } from "../types/registry.js";
+
+/**
+ * How to handle a component with local modifications
+ */
+type UpdateStrategy = "merge" | "overwrite" | "skip";
 
 interface UpdateCommandOptions {
   /**
@@ -35,61 +100,353 @@ interface UpdateCommandOptions {
   merge?: boolean;
 
   /**
-   * Registry URL
+   * Move to the latest version even if it is outside the locked range
+   */
+  latest?: boolean;
+
+  /**
+   * Cross breaking changes without asking for confirmation
+   */
+  allowBreaking?: boolean;
+
+  /**
+   * Update every component tracked in the lock file
+   */
+  all?: boolean;
+
+  /**
+   * Strategy for locally modified components (non-interactive)
+   * Defaults to `updateStrategy` in voidui.config.json
+   */
+  strategy?: UpdateStrategy;
+
+  /**
+   * Registry URL, overriding the registry recorded for each component
+   * Components moved to another registry this way record the migration
    */
   registry?: string;
+
+  /**
+   * Serve registry data only from the on-disk cache
+   */
+  offline?: boolean;
+}
+
+type UpdateOutcome =
+  | "updated"
+  | "merged-clean"
+  | "merged-with-conflicts"
+  | "up-to-date"
+  | "skipped"
+  | "blocked"
+  | "failed";
+
+interface UpdateResult {
+  /**
+   * Component name
+   */
+  component: string;
+
+  /**
+   * What happened to the component
+   */
+  outcome: UpdateOutcome;
+
+  /**
+   * Version before the update
+   */
+  fromVersion?: string;
+
+  /**
+   * Version after the update
+   */
+  toVersion?: string;
+
+  /**
+   * Reason for skipping or failing
+   */
+  message?: string;
+
+  /**
+   * New lock entry if the component was written
+   */
+  entry?: ComponentLockEntry;
+}
+
+interface UpdateContext {
+  /**
+   * Current working directory
+   */
+  cwd: string;
+
+  /**
+   * Registry the component is updated from
+   */
+  registryUrl: string;
+
+  /**
+   * Strategy for modified components, or null to prompt
+   */
+  strategy: UpdateStrategy | null;
+
+  /**
+   * Whether the user can be prompted
+   */
+  interactive: boolean;
+
+  /**
+   * Whether breaking changes may be crossed without confirmation
+   */
+  allowBreaking: boolean;
+
+  /**
+   * Whether to ignore the semver range recorded in the lock file
+   */
+  ignoreRange: boolean;
 }
 
-const DEFAULT_REGISTRY_URL = "https://voidui.dev/r";
+interface FileUpdate {
+  /**
+   * Where the file lives in the project
+   */
+  location: ComponentFileLocation;
+
+  /**
+   * Content of the file at the target version
+   */
+  content: string;
+
+  /**
+   * Whether the local file has changes that writing would discard
+   */
+  modified: boolean;
+}
 
 /**
  * Main update command handler
- * Updates a component to latest version with merge support
+ * Updates one or more components to the latest (or a specific) version
+ * with merge support. Rollbacks use the same merge logic as upgrades.
  *
- * @param component - Component name
+ * @param components - Component specifiers, e.g. "separator" or
+ *   "separator@1.0.0" (ignored with --all)
  * @param options - Command options
  */
 export async function updateCommand(
-  component: string | undefined,
+  components: string[],
   options: UpdateCommandOptions,
 ): Promise<void> {
-  const registryUrl = options.registry || DEFAULT_REGISTRY_URL;
   const cwd = process.cwd();
+  const registryUrl = await resolveRegistryUrl(cwd, options.registry);
+
+  setOfflineMode(Boolean(options.offline));
 
-  // Validate component name
-  if (!component) {
+  // Validate component names
+  if (components.length === 0 && !options.all) {
     console.error(chalk.red("❌ Component name is required"));
     console.error(chalk.gray("\nUsage:"));
-    console.error(chalk.gray("  voidui update <component>"));
+    console.error(chalk.gray("  voidui update <component...>"));
+    console.error(chalk.gray("  voidui update <component>@<version>"));
     console.error(chalk.gray("  voidui update <component> --force"));
     console.error(chalk.gray("  voidui update <component> --merge"));
+    console.error(chalk.gray("  voidui update --all --strategy merge"));
     process.exit(1);
   }
 
-  console.log(chalk.blue(`\n🔄 Updating ${component}...\n`));
-
   // 1. Read lock file
   const lockFile = await readLockFile(cwd);
 
   if (!lockFile) {
     console.error(chalk.red("❌ No lock file found"));
     console.error(chalk.gray("\n   Lock file will be created when you run:"));
-    console.error(chalk.gray(`   voidui add ${component}`));
+    console.error(
+      chalk.gray(`   voidui add ${components[0] ?? "<component>"}`),
+    );
     process.exit(1);
   }
 
-  const entry = getComponentEntry(lockFile, component);
+  let componentSpecs: ComponentSpec[];
 
-  if (!entry) {
+  try {
+    componentSpecs = options.all
+      ? Object.keys(lockFile.components)
+          .sort()
+          .map((name) => ({ name }))
+      : components.map(parseComponentSpec);
+  } catch (error) {
     console.error(
-      chalk.red(`❌ Component "${component}" is not tracked in lock file`),
+      chalk.red(`❌ ${error instanceof Error ? error.message : error}`),
     );
-    console.error(chalk.gray(`\n   Add tracking with:`));
-    console.error(chalk.gray(`   voidui add ${component} --scan`));
     process.exit(1);
   }
 
-  // 2. Fetch latest version from registry
+  if (componentSpecs.length === 0) {
+    console.log(chalk.gray("\nNo components are tracked yet.\n"));
+    return;
+  }
+
+  // 2. Resolve strategy: flags win over voidui.config.json,
+  //    batch and non-TTY runs never prompt
+  const isBatch = componentSpecs.length > 1 || Boolean(options.all);
+  const interactive = !isBatch && Boolean(process.stdin.isTTY);
+  const { updateStrategy: configuredStrategy } = await readConfig(cwd);
+  let strategy: UpdateStrategy | null =
+    options.strategy ??
+    (configuredStrategy === "prompt" ? null : (configuredStrategy ?? null));
+
+  if (options.force) {
+    strategy = "overwrite";
+  } else if (options.merge) {
+    strategy = "merge";
+  } else if (!strategy && !interactive) {
+    strategy = "skip";
+  }
+
+  const context: UpdateContext = {
+    cwd,
+    registryUrl,
+    strategy,
+    interactive,
+    allowBreaking: Boolean(options.allowBreaking),
+    ignoreRange: Boolean(options.latest),
+  };
+
+  // 3. Update each component, collecting results
+  const results: UpdateResult[] = [];
+  let updatedLockFile = lockFile;
+
+  for (const { name: component, version: requestedVersion } of componentSpecs) {
+    const entry = getComponentEntry(updatedLockFile, component);
+    let result: UpdateResult;
+
+    if (!entry) {
+      console.error(
+        chalk.red(`❌ Component "${component}" is not tracked in lock file`),
+      );
+      console.error(chalk.gray(`\n   Add tracking with:`));
+      console.error(chalk.gray(`   voidui add ${component} --scan`));
+      result = {
+        component,
+        outcome: "failed",
+        message: "Not tracked in lock file",
+      };
+    } else {
+      try {
+        result = await updateComponent(component, entry, requestedVersion, {
+          ...context,
+          registryUrl: getComponentRegistryUrl(
+            entry,
+            registryUrl,
+            Boolean(options.registry),
+          ),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(
+          chalk.red(`❌ Failed to update ${component}: ${message}`),
+        );
+        result = { component, outcome: "failed", message };
+      }
+    }
+
+    if (result.entry) {
+      updatedLockFile = updateComponentEntry(
+        updatedLockFile,
+        component,
+        result.entry,
+      );
+
+      // Dependencies the new version needs at another version move too
+      componentSpecs.push(
+        ...(await planDependencyUpdates(
+          component,
+          result.entry,
+          updatedLockFile,
+          componentSpecs,
+          registryUrl,
+          Boolean(options.registry),
+        )),
+      );
+    }
+
+    results.push(result);
+  }
+
+  // Report dependency edges the updates left unsatisfied
+  const updatedComponents = new Set(
+    results
+      .filter((result) => result.entry && result.outcome !== "up-to-date")
+      .map((result) => result.component),
+  );
+  const unsatisfied = findUnsatisfiedDependencies(updatedLockFile).filter(
+    (edge) =>
+      updatedComponents.has(edge.dependent) || updatedComponents.has(edge.name),
+  );
+
+  if (unsatisfied.length > 0) {
+    console.log(chalk.yellow("\n⚠️  Unsatisfied registry dependencies:"));
+    for (const edge of unsatisfied) {
+      console.log(
+        chalk.gray(
+          `   - ${edge.dependent} requires ${edge.name}@${edge.range}, ${edge.installedVersion ? `but ${edge.installedVersion} is installed` : "which is not installed"}`,
+        ),
+      );
+    }
+  }
+
+  // 4. Write lock file once
+  if (results.some((result) => result.entry)) {
+    await writeLockFile(cwd, updatedLockFile);
+  }
+
+  await runHook("postUpdate", cwd, {
+    components: [...updatedComponents],
+    files: [...updatedComponents].flatMap((component) =>
+      Object.keys(updatedLockFile.components[component]?.files ?? {}),
+    ),
+  });
+
+  // 5. Report
+  if (isBatch) {
+    printUpdateReport(results);
+  } else {
+    console.log("");
+  }
+
+  if (results.some((result) => result.outcome === "failed")) {
+    process.exitCode = EXIT_CODES.ERROR;
+  } else if (results.some((result) => result.outcome === "blocked")) {
+    process.exitCode = EXIT_CODES.BREAKING_CHANGES;
+  }
+}
+
+/**
+ * Update a single component to the latest or a requested version
+ * Writes the component file but not the lock file; never exits the process
+ *
+ * @param component - Component name
+ * @param entry - Current lock entry
+ * @param requestedVersion - Version to move to (defaults to latest)
+ * @param context - Update context
+ * @returns Update result (with the new lock entry if the file was written)
+ */
+async function updateComponent(
+  component: string,
+  entry: ComponentLockEntry,
+  requestedVersion: string | undefined,
+  context: UpdateContext,
+): Promise<UpdateResult> {
+  const { cwd, registryUrl } = context;
+  const fromVersion = entry.installedVersion;
+
+  console.log(chalk.blue(`\n🔄 Updating ${component}...\n`));
+
+  if (entry.registryUrl && entry.registryUrl !== registryUrl) {
+    console.log(
+      chalk.yellow(`  Moving registry: ${entry.registryUrl} → ${registryUrl}`),
+    );
+  }
+
+  // 1. Fetch latest version from registry
   console.log(chalk.gray("Checking for updates..."));
   const registryItem = await fetchRegistryItem(component, registryUrl);
 
@@ -98,7 +455,12 @@ export async function updateCommand(
       chalk.red(`❌ Component "${component}" not found in registry`),
     );
     console.error(chalk.gray(`   Registry: ${registryUrl}`));
-    process.exit(1);
+    return {
+      component,
+      outcome: "failed",
+      fromVersion,
+      message: "Not found in registry",
+    };
   }
 
   const versioning = registryItem.meta?.versioning;
@@ -107,143 +469,467 @@ export async function updateCommand(
     console.error(
       chalk.red(`❌ Component "${component}" does not have version tracking`),
     );
-    process.exit(1);
+    return {
+      component,
+      outcome: "failed",
+      fromVersion,
+      message: "No version tracking",
+    };
   }
 
   const latestVersion = versioning.currentVersion;
 
-  // 3. Locate component file
-  const location = await locateComponent(component, cwd);
+  // Routine updates stay within the locked range unless --latest is set
+  const wantedVersion =
+    entry.range && !context.ignoreRange
+      ? resolveWantedVersion(
+          [...new Set([latestVersion, ...versioning.availableVersions])],
+          entry.range,
+        )
+      : latestVersion;
+  const targetVersion = requestedVersion ?? wantedVersion ?? fromVersion;
 
-  if (!location.exists) {
+  if (
+    requestedVersion &&
+    !versioning.availableVersions.includes(requestedVersion)
+  ) {
     console.error(
-      chalk.red(`❌ Component file not found at: ${location.path}`),
+      chalk.red(`❌ Version "${requestedVersion}" not found for ${component}`),
     );
-    process.exit(1);
+    console.error(
+      chalk.gray(`   Available: ${versioning.availableVersions.join(", ")}`),
+    );
+    return {
+      component,
+      outcome: "failed",
+      fromVersion,
+      toVersion: requestedVersion,
+      message: "Version not found",
+    };
+  }
+
+  // 2. Check tracked files for local modifications (even if on latest version)
+  const drift = await checkComponentDrift(component, entry, cwd);
+
+  if (drift.every((file) => file.state === "missing")) {
+    console.error(
+      chalk.red(
+        `❌ Component file not found at: ${drift[0]?.path ?? component}`,
+      ),
+    );
+    return {
+      component,
+      outcome: "failed",
+      fromVersion,
+      message: "Component file not found",
+    };
   }
 
-  // 4. Check for local modifications (even if on latest version)
-  const currentChecksum = await computeChecksum(location.path);
-  const isModified = !compareChecksums(entry.checksum, currentChecksum);
+  const isModified = drift.some((file) => file.state === "modified");
+  const isReformatted = drift.some((file) => file.state === "reformatted");
 
-  // Check if already on latest
-  if (entry.installedVersion === latestVersion) {
+  if (!requestedVersion && targetVersion !== latestVersion) {
+    console.log(
+      chalk.yellow(
+        `  Latest version ${latestVersion} is outside the locked range ${entry.range}`,
+      ),
+    );
+    console.log(
+      chalk.gray(
+        `  Run \`voidui update ${component} --latest\` to move past the range`,
+      ),
+    );
+  }
+
+  // Check if already on target
+  if (fromVersion === targetVersion) {
+    let upToDateMessage = `✓ Already on version ${targetVersion}`;
+
+    if (targetVersion === latestVersion) {
+      upToDateMessage = `✓ Already on the latest version (${latestVersion})`;
+    } else if (!requestedVersion) {
+      upToDateMessage = `✓ Already on the newest version within ${entry.range} (${targetVersion})`;
+    }
+
+    console.log(chalk.green(upToDateMessage));
     if (isModified) {
-      console.log(
-        chalk.green(`✓ Already on the latest version (${latestVersion})`),
-      );
       console.log(chalk.yellow("\n⚠️  However, local modifications detected"));
       console.log(
-        chalk.gray("\n  Your file has been modified since installation."),
+        chalk.gray("\n  Your files have been modified since installation."),
       );
       console.log(chalk.gray("  To reset to the original version, run:"));
       console.log(chalk.gray(`  voidui add ${component} --force`));
-    } else {
+    } else if (isReformatted) {
       console.log(
-        chalk.green(`✓ Already on the latest version (${latestVersion})`),
+        chalk.gray("  Some files were reformatted but not otherwise changed."),
       );
     }
-    return;
+    return {
+      component,
+      outcome: "up-to-date",
+      fromVersion,
+      toVersion: targetVersion,
+      // Only the registry changes, so files are left alone
+      entry:
+        entry.registryUrl !== registryUrl
+          ? recordRegistryMigration({ ...entry, registryUrl }, entry)
+          : undefined,
+    };
   }
 
+  const isRollback = compareVersions(targetVersion, fromVersion) < 0;
+
   console.log(
     chalk.gray(
-      `  Current: ${entry.installedVersion} → Latest: ${latestVersion}`,
+      targetVersion === latestVersion
+        ? `  Current: ${fromVersion} → Latest: ${latestVersion}`
+        : `  Current: ${fromVersion} → Target: ${targetVersion}${isRollback ? " (rollback)" : ""}`,
     ),
   );
 
-  // Already have location, currentChecksum, isModified from above
+  // 4. Gate on breaking changes between the two versions
+  const breakingEntries = getCrossedEntries(
+    versioning.changelog.entries,
+    fromVersion,
+    targetVersion,
+  ).filter((changelogEntry) => changelogEntry.breaking);
 
-  if (isModified) {
-    console.log(chalk.yellow("\n⚠️  Local modifications detected"));
-  }
+  if (breakingEntries.length > 0 && !context.allowBreaking) {
+    console.log(
+      chalk.red.bold(
+        `\n⚠️  ${isRollback ? "Rolling back" : "Updating"} crosses ${breakingEntries.length} breaking change${breakingEntries.length > 1 ? "s" : ""}:\n`,
+      ),
+    );
 
-  // 5. Determine update strategy
-  let updateStrategy: "overwrite" | "merge" | "abort" = "overwrite";
+    for (const breakingEntry of breakingEntries) {
+      console.log(
+        chalk.bold(`Version ${breakingEntry.version}`) +
+          " " +
+          chalk.red.bold("BREAKING"),
+      );
+      console.log(formatChangelogSummary(breakingEntry));
+    }
 
-  if (isModified && !options.force && !options.merge) {
-    // Interactive prompt
-    const response = await prompts({
-      type: "select",
-      name: "strategy",
-      message: "How would you like to update?",
-      choices: [
-        {
-          title: "Attempt 3-way merge (preserve your changes)",
-          value: "merge",
-        },
-        {
-          title: "Overwrite (lose your local changes)",
-          value: "overwrite",
-        },
-        {
-          title: "Show diff and abort",
-          value: "diff",
-        },
-        {
-          title: "Cancel",
-          value: "abort",
-        },
-      ],
-      initial: 0,
+    if (!context.interactive) {
+      console.error(
+        chalk.red(
+          `\n❌ Refusing to cross breaking changes in a non-interactive run`,
+        ),
+      );
+      console.error(chalk.gray("   Re-run with --allow-breaking to proceed."));
+      return {
+        component,
+        outcome: "blocked",
+        fromVersion,
+        toVersion: targetVersion,
+        message: "Breaking changes",
+      };
+    }
+
+    const confirmResponse = await prompts({
+      type: "confirm",
+      name: "proceed",
+      message: `Continue ${isRollback ? "rolling back" : "updating"} ${component} to ${targetVersion}?`,
+      initial: false,
     });
 
-    if (!response.strategy || response.strategy === "abort") {
+    if (!confirmResponse.proceed) {
       console.log(chalk.gray("\nUpdate cancelled"));
-      return;
+      return {
+        component,
+        outcome: "blocked",
+        fromVersion,
+        toVersion: targetVersion,
+        message: "Breaking changes not confirmed",
+      };
     }
+  }
 
-    if (response.strategy === "diff") {
-      // Show diff and exit
-      const localContent = await readFile(location.path, "utf-8");
-      const latestContent = extractComponentCode(registryItem);
-      const diff = formatDiff(
-        localContent,
-        latestContent,
-        `${component}@${entry.installedVersion}.tsx`,
-        `${component}@${latestVersion}.tsx`,
-      );
-      console.log("\n" + diff);
+  // 5. Fetch target version files
+  const targetItem =
+    targetVersion === latestVersion
+      ? registryItem
+      : await resolveRegistryItemVersion(component, targetVersion, registryUrl);
+
+  if (!targetItem) {
+    console.error(
+      chalk.red(
+        `❌ Version ${targetVersion} of ${component} is not available from this registry`,
+      ),
+    );
+    console.error(
+      chalk.gray(
+        `   Expected at: ${registryUrl}/${parseComponentName(component).name}/${targetVersion}.json`,
+      ),
+    );
+    return {
+      component,
+      outcome: "failed",
+      fromVersion,
+      toVersion: targetVersion,
+      message: "Version content unavailable",
+    };
+  }
+
+  // Registry content is compared and written with the project's import aliases
+  const componentsConfig = await readComponentsConfig(cwd);
+  const { namespace } = parseComponentName(component);
+  let files: FileUpdate[];
+
+  try {
+    files = await planFileUpdates(
+      transformRegistryItem(targetItem, componentsConfig, namespace),
+      drift,
+      cwd,
+      namespace,
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`),
+    );
+    return {
+      component,
+      outcome: "failed",
+      fromVersion,
+      toVersion: targetVersion,
+      message: "Invalid file target",
+    };
+  }
+  const modifiedFiles = files.filter((file) => file.modified);
+
+  // Partial artifacts only carry the main file; the others are left as
+  // they are and stay tracked
+  const isPartial = targetItem.meta?.partial === true;
+  const keptTargets = isPartial
+    ? Object.keys(entry.files ?? {}).filter(
+        (target) => !files.some((file) => file.location.target === target),
+      )
+    : [];
+
+  if (isPartial && keptTargets.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  ${component}@${targetVersion} only has a snapshot of its main file. Keeping ${keptTargets.join(", ")} as installed.`,
+      ),
+    );
+  }
+
+  // Files dropped upstream are left in place but no longer tracked
+  for (const file of isPartial ? [] : drift) {
+    if (
+      file.state !== "missing" &&
+      !files.some((planned) => planned.location.target === file.target)
+    ) {
       console.log(
-        chalk.gray(
-          `\nRun \`voidui update ${component} --merge\` to attempt merge`,
+        chalk.yellow(
+          `⚠️  ${file.target} is no longer part of ${component}@${targetVersion}. Keeping it untracked.`,
         ),
       );
-      console.log(
-        chalk.gray(`Run \`voidui update ${component} --force\` to overwrite`),
-      );
-      return;
     }
+  }
 
-    updateStrategy = response.strategy;
-  } else if (options.force) {
-    updateStrategy = "overwrite";
-  } else if (options.merge) {
-    updateStrategy = "merge";
+  if (modifiedFiles.length > 0) {
+    console.log(chalk.yellow("\n⚠️  Local modifications detected"));
+    for (const file of modifiedFiles) {
+      console.log(chalk.gray(`   ${file.location.path}`));
+    }
   }
 
-  // 6. Perform update
-  let newContent: string;
-  let mergeSuccess = true;
+  // Formatting-only changes are replaced without asking
+  for (const file of drift.filter((file) => file.state === "reformatted")) {
+    console.log(
+      chalk.gray(
+        `  ${file.target} was only reformatted; re-run your formatter after updating`,
+      ),
+    );
+  }
 
-  if (updateStrategy === "merge" && isModified) {
-    // 3-way merge
-    console.log(chalk.gray("\n  Performing 3-way merge..."));
+  // 6. Determine update strategy
+  let updateStrategy: UpdateStrategy = "overwrite";
+
+  if (modifiedFiles.length > 0) {
+    if (context.strategy) {
+      updateStrategy = context.strategy;
+    } else {
+      // Interactive prompt
+      const response = await prompts({
+        type: "select",
+        name: "strategy",
+        message: "How would you like to update?",
+        choices: [
+          {
+            title: "Attempt 3-way merge (preserve your changes)",
+            value: "merge",
+          },
+          {
+            title: "Overwrite (lose your local changes)",
+            value: "overwrite",
+          },
+          {
+            title: "Show diff and abort",
+            value: "diff",
+          },
+          {
+            title: "Cancel",
+            value: "abort",
+          },
+        ],
+        initial: 0,
+      });
+
+      if (!response.strategy || response.strategy === "abort") {
+        console.log(chalk.gray("\nUpdate cancelled"));
+        return {
+          component,
+          outcome: "skipped",
+          fromVersion,
+          toVersion: targetVersion,
+          message: "Cancelled",
+        };
+      }
 
-    const baseContent = await fetchComponentVersion(
+      if (response.strategy === "diff") {
+        // Show diff and abort
+        for (const file of modifiedFiles) {
+          const localContent = await readFile(file.location.path, "utf-8");
+          const fileName = path.basename(file.location.path);
+          const diff = formatDiff(
+            localContent,
+            file.content,
+            formatVersionLabel(fileName, fromVersion),
+            formatVersionLabel(fileName, targetVersion),
+          );
+          console.log("\n" + diff);
+        }
+        console.log(
+          chalk.gray(
+            `\nRun \`voidui update ${component} --merge\` to attempt merge`,
+          ),
+        );
+        console.log(
+          chalk.gray(`Run \`voidui update ${component} --force\` to overwrite`),
+        );
+        return {
+          component,
+          outcome: "skipped",
+          fromVersion,
+          toVersion: targetVersion,
+          message: "Diff shown",
+        };
+      }
+
+      updateStrategy = response.strategy;
+    }
+  }
+
+  if (updateStrategy === "skip") {
+    console.log(chalk.gray("  Skipping (local modifications)"));
+    return {
       component,
-      entry.installedVersion,
+      outcome: "skipped",
+      fromVersion,
+      toVersion: targetVersion,
+      message: "Local modifications",
+    };
+  }
+
+  // 7. Resolve new content for every file
+  const newContents = new Map<FileUpdate, string>();
+  const conflictedFiles: FileUpdate[] = [];
+  let outcome: UpdateOutcome = "updated";
+
+  for (const file of files) {
+    newContents.set(file, file.content);
+  }
+
+  // The registry is only asked for the installed version when needed
+  let baseItem: Promise<RegistryItem | null> | null = null;
+  const getBaseItem = () =>
+    (baseItem ??= resolveRegistryItemVersion(
+      component,
+      fromVersion,
       registryUrl,
-    );
-    const oursContent = await readFile(location.path, "utf-8");
-    const theirsContent = extractComponentCode(registryItem);
+    ).then(
+      (item) =>
+        item && transformRegistryItem(item, componentsConfig, namespace),
+    ));
+
+  // Version artifacts only reliably snapshot the main file: older registries
+  // wrote the current content of every other file, and merging against that
+  // would silently drop upstream changes
+  const getArtifactBaseContent = async (file: FileUpdate) => {
+    const item = await getBaseItem();
+    const mainFile = item ? findMainFile(item) : undefined;
+
+    return mainFile?.path === file.location.registryPath
+      ? mainFile.content
+      : undefined;
+  };
+
+  if (updateStrategy === "merge" && modifiedFiles.length > 0) {
+    // 3-way merge
+    console.log(chalk.gray("\n  Performing 3-way merge..."));
+
+    const unmergeableFiles: FileUpdate[] = [];
 
-    if (!baseContent) {
+    for (const file of modifiedFiles) {
+      const cachedChecksum = entry.baseChecksums?.[file.location.target];
+      const baseContent =
+        (cachedChecksum ? await readBaseContent(cwd, cachedChecksum) : null) ??
+        (await getArtifactBaseContent(file));
+
+      if (baseContent === undefined) {
+        unmergeableFiles.push(file);
+        continue;
+      }
+
+      const oursContent = await readFile(file.location.path, "utf-8");
+      const mergeResult = threeWayMerge(
+        baseContent,
+        oursContent,
+        file.content,
+        {
+          ours: "your changes",
+          theirs: `v${targetVersion}`,
+        },
+      );
+
+      newContents.set(file, mergeResult.content);
+      if (!mergeResult.success) {
+        outcome = "merged-with-conflicts";
+        conflictedFiles.push(file);
+      } else if (outcome === "updated") {
+        outcome = "merged-clean";
+      }
+
+      console.log(
+        formatMergeMessage(mergeResult, file.location.path, component),
+      );
+    }
+
+    if (unmergeableFiles.length > 0) {
       console.error(
         chalk.yellow(
-          `\n⚠️  Could not fetch base version (${entry.installedVersion})`,
+          `\n⚠️  No reliable base version (${fromVersion}) to merge against`,
         ),
       );
+      for (const file of unmergeableFiles) {
+        console.error(chalk.gray(`   ${file.location.path}`));
+      }
+
+      if (!context.interactive) {
+        console.error(
+          chalk.gray("   Skipping. Use --strategy overwrite to replace it."),
+        );
+        return {
+          component,
+          outcome: "skipped",
+          fromVersion,
+          toVersion: targetVersion,
+          message: `Base version ${fromVersion} unavailable for merge`,
+        };
+      }
+
       console.error(
         chalk.gray("   Falling back to overwrite. Use --force to confirm."),
       );
@@ -251,72 +937,450 @@ export async function updateCommand(
       const confirmResponse = await prompts({
         type: "confirm",
         name: "overwrite",
-        message: "Overwrite local file with latest version?",
+        message: `Overwrite local file with version ${targetVersion}?`,
         initial: false,
       });
 
       if (!confirmResponse.overwrite) {
         console.log(chalk.gray("\nUpdate cancelled"));
-        return;
+        return {
+          component,
+          outcome: "skipped",
+          fromVersion,
+          toVersion: targetVersion,
+          message: "Cancelled",
+        };
       }
+    }
+  } else if (modifiedFiles.length > 0) {
+    // Simple overwrite
+    console.log(
+      chalk.yellow(
+        `\n⚠️  Overwriting local changes with version ${targetVersion}`,
+      ),
+    );
+  }
 
-      newContent = theirsContent;
-    } else {
-      const mergeResult = threeWayMerge(
-        baseContent,
-        oursContent,
-        theirsContent,
-        {
-          ours: "your changes",
-          theirs: `v${latestVersion}`,
-        },
-      );
+  // 8. Write updated content
+  for (const [file, content] of newContents) {
+    await ensureDir(path.dirname(file.location.path));
+    await writeFile(file.location.path, content, "utf-8");
+  }
 
-      newContent = mergeResult.content;
-      mergeSuccess = mergeResult.success;
+  const writtenLocations = files.map((file) => ({
+    ...file.location,
+    exists: true,
+  }));
+  const newFiles = {
+    ...pickTargets(entry.files, keptTargets),
+    ...(await computeFileChecksums(writtenLocations)),
+  };
+  const semanticChecksums = {
+    ...pickTargets(entry.semanticChecksums, keptTargets),
+    ...(await computeSemanticFileChecksums(writtenLocations)),
+  };
 
-      console.log(formatMergeMessage(mergeResult, location.path));
-    }
+  // Files left with conflict markers keep their previous checksums, so they
+  // show up as modified until the conflicts are resolved
+  for (const file of conflictedFiles) {
+    const target = file.location.target;
+
+    newFiles[target] =
+      entry.files?.[target] ?? computeContentChecksum(file.content);
+    semanticChecksums[target] =
+      entry.semanticChecksums?.[target] ??
+      computeSemanticChecksum(file.content);
+  }
+  const baseChecksums = {
+    ...pickTargets(entry.baseChecksums, keptTargets),
+    ...(await storeBaseContents(
+      cwd,
+      files.map((file) => ({
+        target: file.location.target,
+        content: file.content,
+      })),
+    )),
+  };
+  const mainFile = findMainFile(targetItem);
+  const mainLocation =
+    files.find((file) => file.location.registryPath === mainFile?.path)
+      ?.location ?? files[0]?.location;
+
+  // 9. Check the npm dependencies the new version needs (the installed
+  // version is only fetched if there are any)
+  const declaresPackages = Boolean(
+    targetItem.dependencies?.length || targetItem.devDependencies?.length,
+  );
+
+  await reconcilePackageDependencies(
+    component,
+    declaresPackages ? await getBaseItem().catch(() => null) : null,
+    targetItem,
+    context,
+  );
+
+  // 10. Success message
+  if (outcome === "merged-with-conflicts") {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  Updated ${component} with conflicts. Please resolve manually.`,
+      ),
+    );
   } else {
-    // Simple overwrite
-    newContent = extractComponentCode(registryItem);
+    console.log(
+      chalk.green(
+        `\n✓ ${isRollback ? "Rolled back" : "Updated"} ${component} from ${fromVersion} to ${targetVersion}`,
+      ),
+    );
+    console.log(chalk.gray(`  Location: ${mainLocation?.path}`));
+  }
 
-    if (isModified) {
+  return {
+    component,
+    outcome,
+    fromVersion,
+    toVersion: targetVersion,
+    entry: recordRegistryMigration(
+      {
+        ...entry,
+        installedVersion: targetVersion,
+        // Moving past the range on purpose re-anchors it at the new version
+        range:
+          entry.range && !satisfiesRange(targetVersion, entry.range)
+            ? defaultRangeFor(targetVersion)
+            : entry.range,
+        installedAt: new Date().toISOString(),
+        checksum: mainLocation
+          ? (newFiles[mainLocation.target] ?? entry.checksum)
+          : entry.checksum,
+        files: newFiles,
+        semanticChecksums,
+        baseChecksums,
+        // Unknown for partial artifacts
+        registryDependencies: isPartial
+          ? entry.registryDependencies
+          : getDependencyEdges(targetItem, {
+              namespace,
+              registryUrl,
+              registries: (await readConfig(cwd)).registries,
+            }),
+        registryUrl,
+      },
+      entry,
+    ),
+  };
+}
+
+/**
+ * Pair every file of the target version with its location in the project
+ * and decide whether writing it would discard local changes
+ *
+ * @param targetItem - Registry item at the target version
+ * @param drift - Drift of the currently tracked files
+ * @param cwd - Current working directory
+ * @param namespace - Namespace of the component (if any)
+ * @returns Planned file updates
+ */
+async function planFileUpdates(
+  targetItem: RegistryItem,
+  drift: FileDrift[],
+  cwd: string,
+  namespace: string | undefined,
+): Promise<FileUpdate[]> {
+  const locations = await locateComponentFiles(targetItem, cwd, namespace);
+
+  return Promise.all(
+    locations.map(async (location, index) => {
+      const content = targetItem.files[index]?.content ?? "";
+      const tracked = drift.find((file) => file.target === location.target);
+
+      if (tracked) {
+        return { location, content, modified: tracked.state === "modified" };
+      }
+
+      // Untracked files that already exist must not be overwritten silently
+      const modified =
+        location.exists &&
+        !compareChecksums(
+          computeContentChecksum(content),
+          await computeChecksum(location.path),
+        );
+
+      return { location, content, modified };
+    }),
+  );
+}
+
+/**
+ * Show how the npm dependencies change between the installed and target
+ * versions, offer to install packages package.json doesn't declare yet and
+ * flag removed packages that may now be unused
+ *
+ * @param component - Component name
+ * @param installedItem - Registry item at the installed version (null skips
+ *   the comparison)
+ * @param targetItem - Registry item at the target version
+ * @param context - Update context
+ */
+async function reconcilePackageDependencies(
+  component: string,
+  installedItem: RegistryItem | null,
+  targetItem: RegistryItem,
+  context: UpdateContext,
+): Promise<void> {
+  const { cwd } = context;
+
+  // Without the installed version's dependencies there is nothing to
+  // compare against
+  const delta =
+    installedItem && hasKnownPackages(installedItem)
+      ? diffPackageDependencies(installedItem, targetItem)
+      : null;
+
+  if (delta && hasPackageChanges(delta)) {
+    console.log(chalk.blue("\n📦 Dependency changes:\n"));
+    console.log(formatPackageDelta(delta));
+  }
+
+  // 1. Packages the new code imports but the project doesn't declare
+  const dependencies = await getMissingPackages(
+    targetItem.dependencies ?? [],
+    cwd,
+  );
+  const devDependencies = await getMissingPackages(
+    targetItem.devDependencies ?? [],
+    cwd,
+  );
+
+  if (dependencies.length > 0 || devDependencies.length > 0) {
+    const packageManager = await detectPackageManager(cwd);
+    const packages = [...dependencies, ...devDependencies];
+    let shouldInstall = false;
+
+    if (context.interactive) {
+      const response = await prompts({
+        type: "confirm",
+        name: "install",
+        message: `Install ${packages.join(", ")} with ${packageManager}?`,
+        initial: true,
+      });
+
+      shouldInstall = response.install ?? false;
+    }
+
+    let installed = false;
+
+    if (shouldInstall) {
+      try {
+        await installPackages(dependencies, packageManager, cwd);
+        await installPackages(devDependencies, packageManager, cwd, {
+          dev: true,
+        });
+        installed = true;
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `❌ ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+      }
+    }
+
+    if (!installed) {
       console.log(
-        chalk.yellow("\n⚠️  Overwriting local changes with latest version"),
+        chalk.yellow(
+          `\n⚠️  ${component} needs packages your project doesn't declare: ${packages.join(", ")}`,
+        ),
       );
+      console.log(chalk.gray("   Install them with:"));
+      if (dependencies.length > 0) {
+        console.log(
+          chalk.gray(
+            `   ${formatInstallCommand(dependencies, packageManager)}`,
+          ),
+        );
+      }
+      if (devDependencies.length > 0) {
+        console.log(
+          chalk.gray(
+            `   ${formatInstallCommand(devDependencies, packageManager, { dev: true })}`,
+          ),
+        );
+      }
     }
   }
 
-  // 7. Write updated content
-  await writeFile(location.path, newContent, "utf-8");
+  // 2. Removed packages stay installed; other code may still import them
+  const removedNames = (delta?.removed ?? []).map((change) => change.name);
+  const undeclared = await getMissingPackages(removedNames, cwd);
+  const declaredRemoved = removedNames.filter(
+    (name) => !undeclared.includes(name),
+  );
 
-  // 8. Update lock file
-  const newChecksum = await computeChecksum(location.path);
-  const updatedLockFile = updateComponentEntry(lockFile, component, {
-    ...entry,
-    installedVersion: latestVersion,
-    installedAt: new Date().toISOString(),
-    checksum: newChecksum,
-  });
+  if (declaredRemoved.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  ${component} no longer uses: ${declaredRemoved.join(", ")}`,
+      ),
+    );
+    console.log(
+      chalk.gray("   Remove them from package.json if nothing else needs them"),
+    );
+  }
+}
 
-  await writeLockFile(cwd, updatedLockFile);
+/**
+ * Find tracked dependencies of an updated component that no longer satisfy
+ * the range its new version requires, and pick a version for each
+ *
+ * @param component - Updated component
+ * @param entry - New lock entry of the component
+ * @param lockFile - Lock file including the new entry
+ * @param queued - Components already queued for update
+ * @param registryUrl - Registry for entries without a recorded one
+ * @param isOverride - Whether registryUrl came from the --registry flag
+ * @returns Dependencies to update, with the version to move to
+ */
+async function planDependencyUpdates(
+  component: string,
+  entry: ComponentLockEntry,
+  lockFile: LockFile,
+  queued: ComponentSpec[],
+  registryUrl: string,
+  isOverride: boolean,
+): Promise<ComponentSpec[]> {
+  const updates: ComponentSpec[] = [];
+
+  for (const [name, range] of Object.entries(
+    entry.registryDependencies ?? {},
+  )) {
+    const dependencyEntry = lockFile.components[name];
+
+    if (!dependencyEntry) {
+      console.log(
+        chalk.yellow(
+          `⚠️  ${component} now depends on ${name}, which is not installed`,
+        ),
+      );
+      console.log(chalk.gray(`   Add it with: voidui add ${name}`));
+      continue;
+    }
+
+    if (
+      satisfiesRange(dependencyEntry.installedVersion, range) ||
+      queued.some((spec) => spec.name === name)
+    ) {
+      continue;
+    }
+
+    const registryItem = await fetchRegistryItem(
+      name,
+      getComponentRegistryUrl(dependencyEntry, registryUrl, isOverride),
+    );
+    const versioning = registryItem?.meta?.versioning;
+    const version = versioning
+      ? resolveWantedVersion(
+          [
+            ...new Set([
+              versioning.currentVersion,
+              ...versioning.availableVersions,
+            ]),
+          ],
+          range,
+        )
+      : null;
+
+    // Left for the unsatisfied dependencies report
+    if (!version) {
+      continue;
+    }
 
-  // 9. Success message
-  if (mergeSuccess) {
     console.log(
-      chalk.green(
-        `\n✓ Updated ${component} from ${entry.installedVersion} to ${latestVersion}`,
+      chalk.gray(
+        `  ${component} requires ${name}@${range}; queueing ${name} ${dependencyEntry.installedVersion} → ${version}`,
       ),
     );
-    console.log(chalk.gray(`  Location: ${location.path}`));
-  } else {
+    updates.push({ name, version });
+  }
+
+  return updates;
+}
+
+/**
+ * Print a consolidated report for a batch update
+ */
+function printUpdateReport(results: UpdateResult[]): void {
+  console.log(chalk.blue("\n📋 Update summary\n"));
+
+  const rows = results.map((result) => [
+    result.component,
+    result.fromVersion ?? "-",
+    result.toVersion ?? "-",
+    formatOutcome(result.outcome),
+    chalk.gray(result.message ?? ""),
+  ]);
+
+  console.log(formatTable(["Component", "From", "To", "Result", "Note"], rows));
+
+  const count = (outcome: UpdateOutcome) =>
+    results.filter((result) => result.outcome === outcome).length;
+
+  const updatedCount =
+    count("updated") + count("merged-clean") + count("merged-with-conflicts");
+
+  console.log(
+    chalk.gray(
+      `\n${updatedCount} updated, ${count("up-to-date")} up to date, ${count("skipped")} skipped, ${count("blocked")} blocked, ${count("failed")} failed`,
+    ),
+  );
+
+  if (count("merged-with-conflicts") > 0) {
     console.log(
       chalk.yellow(
-        `\n⚠️  Updated ${component} with conflicts. Please resolve manually.`,
+        "\n⚠️  Resolve conflict markers (<<<<<<<) in the merged files, then run:",
       ),
     );
+    console.log(chalk.gray("   voidui add <component> --scan --force"));
   }
 
   console.log("");
 }
+
+/**
+ * Format an update outcome for the report
+ */
+function formatOutcome(outcome: UpdateOutcome): string {
+  switch (outcome) {
+    case "updated":
+      return chalk.green("updated");
+    case "merged-clean":
+      return chalk.green("merged");
+    case "merged-with-conflicts":
+      return chalk.yellow("conflicts");
+    case "up-to-date":
+      return chalk.gray("up to date");
+    case "skipped":
+      return chalk.yellow("skipped");
+    case "blocked":
+      return chalk.red("breaking");
+    case "failed":
+      return chalk.red("failed");
+    default:
+      return outcome;
+  }
+}
+
+/**
+ * Pick the checksums of the given targets from a lock entry map
+ */
+function pickTargets(
+  checksums: Record<string, string> | undefined,
+  targets: string[],
+): Record<string, string> {
+  return Object.fromEntries(
+    targets.flatMap((target) => {
+      const checksum = checksums?.[target];
+      return checksum ? [[target, checksum]] : [];
+    }),
+  );
+}
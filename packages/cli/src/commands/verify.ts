@@ -0,0 +1,215 @@
+/**
+ * Verify command implementation
+ * Offline drift check of local components against voidui.lock.json
+ */
+
+import path from "path";
+import chalk from "chalk";
+import { readFile } from "fs/promises";
+import { listLocalComponentFiles } from "../utils/component-locator.js";
+import { checkComponentDrift } from "../utils/drift.js";
+import { hasConflictMarkers } from "../utils/merge.js";
+import { readLockFile } from "../utils/lock-file.js";
+import { EXIT_CODES } from "../utils/exit-codes.js";
+import { readConfig } from "../utils/config.js";
+
+interface VerifyCommandOptions {
+  /**
+   * Print machine-readable JSON instead of a report
+   */
+  json?: boolean;
+
+  /**
+   * Don't report component files that are not in the lock file
+   */
+  ignoreUntracked?: boolean;
+
+  /**
+   * Don't report files whose only changes are formatting
+   * Defaults to `checksumMode: "semantic"` in voidui.config.json
+   */
+  ignoreFormatting?: boolean;
+}
+
+type VerifyProblem =
+  | "modified"
+  | "reformatted"
+  | "missing"
+  | "untracked"
+  | "conflicts";
+
+interface VerifyIssue {
+  /**
+   * Component name
+   */
+  component: string;
+
+  /**
+   * Class of problem
+   */
+  problem: VerifyProblem;
+
+  /**
+   * Path to the affected file
+   */
+  path: string;
+}
+
+const PROBLEM_EXIT_CODES: Record<VerifyProblem, number> = {
+  modified: EXIT_CODES.VERIFY_MODIFIED,
+  reformatted: EXIT_CODES.VERIFY_MODIFIED,
+  missing: EXIT_CODES.VERIFY_MISSING,
+  untracked: EXIT_CODES.VERIFY_UNTRACKED,
+  conflicts: EXIT_CODES.VERIFY_CONFLICTS,
+};
+
+/**
+ * Main verify command handler
+ * Recomputes checksums for every tracked component without touching
+ * the registry, and exits with a code describing the problems found
+ *
+ * @param options - Command options
+ */
+export async function verifyCommand(
+  options: VerifyCommandOptions,
+): Promise<void> {
+  const cwd = process.cwd();
+  const ignoreFormatting =
+    options.ignoreFormatting ??
+    (await readConfig(cwd)).checksumMode === "semantic";
+
+  // 1. Read lock file
+  const lockFile = await readLockFile(cwd);
+
+  if (!lockFile) {
+    console.error(chalk.red("❌ No lock file found"));
+    process.exit(EXIT_CODES.ERROR);
+  }
+
+  const trackedComponents = Object.keys(lockFile.components).sort();
+  const trackedPaths = new Set<string>();
+  const issues: VerifyIssue[] = [];
+
+  // 2. Check every file of every tracked component
+  for (const component of trackedComponents) {
+    const entry = lockFile.components[component]!;
+
+    for (const file of await checkComponentDrift(component, entry, cwd)) {
+      trackedPaths.add(file.path);
+
+      if (file.state === "missing") {
+        issues.push({ component, problem: "missing", path: file.path });
+        continue;
+      }
+
+      // Conflicted files may have been recorded with their markers, so
+      // every file is scanned regardless of its checksum
+      if (hasConflictMarkers(await readFile(file.path, "utf-8"))) {
+        issues.push({ component, problem: "conflicts", path: file.path });
+        continue;
+      }
+
+      if (file.state === "unchanged") {
+        continue;
+      }
+
+      if (file.state === "reformatted") {
+        if (!ignoreFormatting) {
+          issues.push({ component, problem: "reformatted", path: file.path });
+        }
+        continue;
+      }
+
+      issues.push({ component, problem: "modified", path: file.path });
+    }
+  }
+
+  // 3. Find component files that are not tracked
+  if (!options.ignoreUntracked) {
+    for (const filePath of await listLocalComponentFiles(cwd)) {
+      if (!trackedPaths.has(filePath)) {
+        issues.push({
+          component: path.basename(filePath, ".tsx"),
+          problem: "untracked",
+          path: filePath,
+        });
+      }
+    }
+  }
+
+  // 4. Report
+  const exitCode = issues.reduce(
+    (code, issue) => code | PROBLEM_EXIT_CODES[issue.problem],
+    0,
+  );
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ ok: issues.length === 0, exitCode, issues }, null, 2),
+    );
+  } else {
+    printVerifyReport(trackedComponents.length, issues);
+  }
+
+  if (exitCode !== 0) {
+    process.exit(exitCode);
+  }
+}
+
+/**
+ * Print verify issues grouped by problem
+ */
+function printVerifyReport(trackedCount: number, issues: VerifyIssue[]): void {
+  console.log(
+    chalk.blue(`\n🔍 Verifying ${trackedCount} tracked component(s)...\n`),
+  );
+
+  if (issues.length === 0) {
+    console.log(chalk.green("✓ All components match voidui.lock.json\n"));
+    return;
+  }
+
+  const groups: Array<{ problem: VerifyProblem; title: string; hint: string }> =
+    [
+      {
+        problem: "conflicts",
+        title: "Unresolved merge conflicts",
+        hint: "Resolve the <<<<<<< markers, then run `voidui add <component> --scan --force`",
+      },
+      {
+        problem: "missing",
+        title: "Missing files",
+        hint: "Run `voidui install` to restore them",
+      },
+      {
+        problem: "modified",
+        title: "Modified since install",
+        hint: "Run `voidui diff <component> --code` to review the changes",
+      },
+      {
+        problem: "reformatted",
+        title: "Only reformatted since install",
+        hint: "Use --ignore-formatting to accept formatting-only changes",
+      },
+      {
+        problem: "untracked",
+        title: "Not tracked in voidui.lock.json",
+        hint: "Run `voidui add <component> --scan` to track them",
+      },
+    ];
+
+  for (const { problem, title, hint } of groups) {
+    const groupIssues = issues.filter((issue) => issue.problem === problem);
+
+    if (groupIssues.length === 0) {
+      continue;
+    }
+
+    const color = problem === "untracked" ? chalk.yellow : chalk.red;
+    console.log(color(`${title} (${groupIssues.length}):`));
+    for (const issue of groupIssues) {
+      console.log(`  ${issue.component} ${chalk.gray(issue.path)}`);
+    }
+    console.log(chalk.gray(`  ${hint}\n`));
+  }
+}
@@ -1,10 +1,17 @@
 #!/usr/bin/env node
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { snapshotCommand } from "./commands/snapshot.js";
 import { augmentCommand } from "./commands/augment.js";
 import { diffCommand } from "./commands/diff.js";
 import { addCommand } from "./commands/add.js";
 import { updateCommand } from "./commands/update.js";
+import { statusCommand } from "./commands/status.js";
+import { removeCommand } from "./commands/remove.js";
+import { installCommand } from "./commands/install.js";
+import { verifyCommand } from "./commands/verify.js";
+import { listCommand } from "./commands/list.js";
+import { searchCommand } from "./commands/search.js";
+import { initCommand } from "./commands/init.js";
 
 const program = new Command();
 
@@ -39,14 +46,32 @@ program
     }
   });
 
+program
+  .command("init")
+  .description("Create voidui.config.json from the project's components.json")
+  .option("--registry <url>", "Default registry URL")
+  .option("--force", "Overwrite an existing voidui.config.json")
+  .action(async (options) => {
+    try {
+      await initCommand(options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
 program
   .command("diff")
   .description("Compare local components against registry versions")
-  .argument("[component]", "Component name (e.g., separator)")
+  .argument("[component]", "Component name (e.g., separator, @acme/button)")
   .argument("[from-version]", "Source version (optional)")
   .argument("[to-version]", "Target version (optional)")
   .option("--code", "Show full code diff with syntax highlighting")
-  .option("--registry <url>", "Registry URL", "https://voidui.dev/r")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
   .action(async (component, fromVersion, toVersion, options) => {
     try {
       await diffCommand(component, fromVersion, toVersion, options);
@@ -56,13 +81,115 @@ program
     }
   });
 
+program
+  .command("status")
+  .alias("outdated")
+  .description("Show version and modification status of all tracked components")
+  .option("--json", "Output status as JSON")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
+  .action(async (options) => {
+    try {
+      await statusCommand(options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("verify")
+  .description(
+    "Check local components against voidui.lock.json without network access",
+  )
+  .option("--json", "Output results as JSON")
+  .option(
+    "--ignore-untracked",
+    "Don't report components missing from the lock file",
+  )
+  .option(
+    "--ignore-formatting",
+    "Don't report files whose only changes are formatting (default: checksumMode in voidui.config.json)",
+  )
+  .addHelpText(
+    "after",
+    `
+Exit codes (summed when several problems are found):
+  0   All tracked components match the lock file
+  1   Lock file missing or unreadable
+  4   A component was modified (or reformatted) since install
+  8   A component file is missing
+  16  A component file is not tracked in the lock file
+  32  A component contains merge conflict markers`,
+  )
+  .action(async (options) => {
+    try {
+      await verifyCommand(options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("list")
+  .description("List all components available in the registry")
+  .option("--json", "Output the catalogue as JSON")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
+  .action(async (options) => {
+    try {
+      await listCommand(options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("search")
+  .description("Search registry components by name, description and changelog")
+  .argument("[term]", "Search term (e.g., dialog)")
+  .option("--json", "Output matches as JSON")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
+  .action(async (term, options) => {
+    try {
+      await searchCommand(term, options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
 program
   .command("add")
   .description("Install a component with version tracking")
-  .argument("[component]", "Component name (e.g., separator)")
+  .argument(
+    "[component]",
+    "Component name, optionally namespaced or with a version (e.g., separator@1.1.0, @acme/button)",
+  )
   .option("--scan", "Add tracking to existing component without reinstalling")
   .option("--force", "Reinstall and update lock file")
-  .option("--registry <url>", "Registry URL", "https://voidui.dev/r")
+  .option(
+    "--range <range>",
+    "Semver range allowed for updates (default: ^<version>)",
+  )
+  .option("--shadcn", "Install with the shadcn CLI instead of writing files")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
   .action(async (component, options) => {
     try {
       await addCommand(component, options);
@@ -72,16 +199,81 @@ program
     }
   });
 
+program
+  .command("install")
+  .description(
+    "Restore all components from voidui.lock.json at their locked versions",
+  )
+  .option("--shadcn", "Restore with the shadcn CLI instead of writing files")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
+  .action(async (options) => {
+    try {
+      await installCommand(options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
 program
   .command("update")
-  .description("Update a component to the latest version")
-  .argument("[component]", "Component name (e.g., separator)")
+  .description("Update components to the latest or a specific version")
+  .argument(
+    "[components...]",
+    "Component names, optionally with a version (e.g., separator@1.0.0)",
+  )
+  .option("--all", "Update every component tracked in the lock file")
+  .addOption(
+    new Option(
+      "--strategy <strategy>",
+      "How to handle locally modified components without prompting (default: updateStrategy in voidui.config.json)",
+    ).choices(["merge", "overwrite", "skip"]),
+  )
   .option("--force", "Overwrite local changes")
   .option("--merge", "Automatically attempt 3-way merge")
-  .option("--registry <url>", "Registry URL", "https://voidui.dev/r")
+  .option("--latest", "Update past the version range in the lock file")
+  .option("--allow-breaking", "Cross breaking changes without confirmation")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
+  .addHelpText(
+    "after",
+    `
+Exit codes:
+  0  All components updated, up to date or skipped
+  1  At least one component failed to update
+  2  Breaking changes were not confirmed (use --allow-breaking)`,
+  )
+  .action(async (components, options) => {
+    try {
+      await updateCommand(components, options);
+    } catch (error) {
+      console.error("Error:", error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("remove")
+  .alias("rm")
+  .description("Stop tracking a component and optionally delete its file")
+  .argument("[component]", "Component name (e.g., separator, @acme/button)")
+  .option("-y, --yes", "Delete files without confirmation")
+  .option("--keep-files", "Only remove the lock file entry")
+  .option(
+    "--registry <url>",
+    "Registry URL (overrides $VOIDUI_REGISTRY and voidui.config.json)",
+  )
+  .option("--offline", "Use cached registry data only, without network access")
   .action(async (component, options) => {
     try {
-      await updateCommand(component, options);
+      await removeCommand(component, options);
     } catch (error) {
       console.error("Error:", error);
       process.exit(1);
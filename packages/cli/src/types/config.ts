@@ -0,0 +1,161 @@
+/**
+ * Project configuration types (voidui.config.json)
+ */
+
+/**
+ * How `voidui update` handles components with local modifications
+ * "prompt" asks in interactive runs and skips otherwise
+ */
+export type UpdateStrategySetting = "prompt" | "merge" | "overwrite" | "skip";
+
+/**
+ * How local files are compared against their recorded checksums
+ * "semantic" ignores formatting-only changes (whitespace, quotes,
+ * semicolons, trailing commas, parentheses around a single arrow
+ * parameter or multiline JSX)
+ */
+export type ChecksumMode = "exact" | "semantic";
+
+/**
+ * How registry responses are validated
+ * "lenient" accepts fields added by newer registries; "strict" rejects them
+ */
+export type RegistryValidationMode = "strict" | "lenient";
+
+export interface ConfigHooks {
+  /**
+   * Shell command run after `voidui add`
+   * @example "prettier --write $VOIDUI_FILES"
+   */
+  postAdd?: string;
+
+  /**
+   * Shell command run after `voidui update` wrote files
+   */
+  postUpdate?: string;
+
+  /**
+   * Shell command run after `voidui install` restored files
+   */
+  postInstall?: string;
+
+  /**
+   * Shell command run after `voidui remove`
+   */
+  postRemove?: string;
+}
+
+/**
+ * Credentials for a registry
+ * Secrets are read from environment variables so the config can be committed
+ */
+export interface RegistryAuth {
+  /**
+   * Extra request headers; values may reference environment variables
+   * @example { "X-Api-Key": "${ACME_API_KEY}" }
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Environment variable holding a bearer token
+   * @example "ACME_REGISTRY_TOKEN"
+   */
+  tokenEnv?: string;
+
+  /**
+   * Basic auth credentials
+   */
+  basic?: {
+    /**
+     * User name (may reference environment variables)
+     */
+    username: string;
+
+    /**
+     * Environment variable holding the password
+     */
+    passwordEnv: string;
+  };
+}
+
+export interface NetworkSettings {
+  /**
+   * Seconds a registry request may take before it is aborted
+   * @default 30
+   */
+  timeout?: number;
+
+  /**
+   * Retries for network errors, timeouts, 429 and 5xx responses
+   * @default 2
+   */
+  retries?: number;
+}
+
+export interface VoiduiConfig {
+  /**
+   * Optional JSON schema reference
+   */
+  $schema?: string;
+
+  /**
+   * Default registry URL
+   * @example "https://voidui.dev/r"
+   */
+  registry?: string;
+
+  /**
+   * Named registries, used by components like "@acme/button"
+   * @example { "@acme": "https://registry.acme.dev/r" }
+   */
+  registries?: Record<string, string>;
+
+  /**
+   * Project-relative directories UI components live in, in lookup order
+   * The first directory is where new components are installed
+   * @example ["src/components/ui"]
+   */
+  componentDirectories?: string[];
+
+  /**
+   * Default strategy for locally modified components during updates
+   * @default "prompt"
+   */
+  updateStrategy?: UpdateStrategySetting;
+
+  /**
+   * How drift is detected by `voidui verify`
+   * @default "exact"
+   */
+  checksumMode?: ChecksumMode;
+
+  /**
+   * Shell commands run after commands that write files
+   */
+  hooks?: ConfigHooks;
+
+  /**
+   * Credentials keyed by registry URL
+   * A request uses the longest URL that prefixes it
+   * @example { "https://registry.acme.dev/r": { "tokenEnv": "ACME_TOKEN" } }
+   */
+  registryAuth?: Record<string, RegistryAuth>;
+
+  /**
+   * How registry responses are validated
+   * @default "lenient"
+   */
+  registryValidation?: RegistryValidationMode;
+
+  /**
+   * Seconds cached registry responses are used before revalidating
+   * @default 300
+   */
+  cacheTtl?: number;
+
+  /**
+   * Timeouts and retries for registry requests
+   * Proxies are read from HTTPS_PROXY, HTTP_PROXY and NO_PROXY
+   */
+  network?: NetworkSettings;
+}
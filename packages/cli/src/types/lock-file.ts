@@ -2,6 +2,26 @@
  * Lock file types for tracking installed component versions
  */
 
+export interface RegistryMigration {
+  /**
+   * Registry the component was installed from before
+   * @example "https://voidui.dev/r"
+   */
+  from: string;
+
+  /**
+   * Registry the component moved to
+   * @example "https://registry.acme.dev/r"
+   */
+  to: string;
+
+  /**
+   * ISO 8601 timestamp of the move
+   * @example "2025-01-20T10:30:00Z"
+   */
+  migratedAt: string;
+}
+
 export interface ComponentLockEntry {
   /**
    * The installed version of the component (semver format)
@@ -16,16 +36,61 @@ export interface ComponentLockEntry {
   installedAt: string;
 
   /**
-   * SHA-256 checksum of the installed component file
+   * SHA-256 checksum of the installed main component file
    * @example "sha256:abc123..."
    */
   checksum: string;
 
+  /**
+   * SHA-256 checksum of every installed file, keyed by project-relative path
+   * Covers hooks, lib helpers and extra UI files shipped with the component
+   * @example { "components/ui/separator.tsx": "sha256:abc123..." }
+   */
+  files?: Record<string, string>;
+
+  /**
+   * Formatting-insensitive checksum of every installed file, keyed like `files`
+   * Tells files that were only reformatted apart from customised ones
+   */
+  semanticChecksums?: Record<string, string>;
+
+  /**
+   * Checksum of the pristine upstream content of each file, keyed like `files`
+   * The content itself is cached in `.voidui/cache/content` as a merge base
+   */
+  baseChecksums?: Record<string, string>;
+
+  /**
+   * Semver range that routine updates must stay within
+   * Set by `voidui add`; `voidui update --latest` may move past it
+   * @example "^1.2.0"
+   */
+  range?: string;
+
+  /**
+   * Registry components this component depends on, with the semver range
+   * it requires ("*" when unconstrained), keyed like `components`
+   * @example { "button": "^1.2.0", "@acme/icon": "*" }
+   */
+  registryDependencies?: Record<string, string>;
+
   /**
    * Optional custom registry URL if not using default
    * @example "https://custom-registry.dev/r"
    */
   registryUrl?: string;
+
+  /**
+   * Named registry the component comes from; the entry is keyed by the
+   * namespaced name (e.g., "@acme/button")
+   * @example "@acme"
+   */
+  namespace?: string;
+
+  /**
+   * Moves between registries, oldest first
+   */
+  registryMigrations?: RegistryMigration[];
 }
 
 export interface LockFile {
@@ -85,6 +85,19 @@ export interface RegistryItem {
      * Versioning metadata (voidui extension)
      */
     versioning?: RegistryItemVersioning;
+
+    /**
+     * Version of this item, set on per-version artifacts
+     * served from `<registry>/<name>/<version>.json`
+     * @example "1.1.0"
+     */
+    version?: string;
+
+    /**
+     * Set on per-version artifacts only the main file is known for;
+     * other files and the dependency fields are missing, not empty
+     */
+    partial?: boolean;
   };
 
   /**
@@ -96,4 +109,46 @@ export interface RegistryItem {
    * Dev dependencies
    */
   devDependencies?: string[];
+
+  /**
+   * Other registry components this component depends on
+   * Component names (optionally with a semver range) or full item URLs
+   * @example ["button@^1.2.0", "https://voidui.dev/r/label.json"]
+   */
+  registryDependencies?: string[];
+}
+
+/**
+ * Registry item as listed in the registry index
+ * File contents are usually omitted from the index
+ */
+export interface RegistryIndexItem extends Omit<RegistryItem, "files"> {
+  /**
+   * Files included in this component (without content)
+   */
+  files?: Array<Omit<RegistryFile, "content"> & { content?: string }>;
+}
+
+export interface RegistryIndex {
+  /**
+   * Optional JSON schema reference
+   */
+  $schema?: string;
+
+  /**
+   * Registry name
+   * @example "voidui"
+   */
+  name?: string;
+
+  /**
+   * Registry homepage
+   * @example "https://voidui.dev"
+   */
+  homepage?: string;
+
+  /**
+   * All items in the registry (augmented with versioning metadata)
+   */
+  items: RegistryIndexItem[];
 }
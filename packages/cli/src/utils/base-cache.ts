@@ -0,0 +1,83 @@
+/**
+ * Content-addressed cache of pristine upstream component content
+ * Stored in `.voidui/cache/content/<sha256>` so 3-way merges have a base
+ * even offline or when the registry does not serve historical versions
+ */
+
+import path from "path";
+import { readFile, writeFile } from "fs/promises";
+import { computeContentChecksum } from "./checksum.js";
+import { ensureDir, fileExists } from "./file-operations.js";
+
+const CACHE_DIR = path.join(".voidui", "cache", "content");
+
+/**
+ * Store upstream content in the cache
+ *
+ * @param cwd - Current working directory
+ * @param content - Pristine file content from the registry
+ * @returns Checksum the content is stored under
+ */
+export async function storeBaseContent(
+  cwd: string,
+  content: string,
+): Promise<string> {
+  const checksum = computeContentChecksum(content);
+  const cachePath = getCachePath(cwd, checksum);
+
+  if (!(await fileExists(cachePath))) {
+    await ensureDir(path.dirname(cachePath));
+    await writeFile(cachePath, content, "utf-8");
+  }
+
+  return checksum;
+}
+
+/**
+ * Store the upstream content of several files
+ *
+ * @param cwd - Current working directory
+ * @param files - Project-relative targets with their upstream content
+ * @returns Checksums keyed by target, for the lock entry's `baseChecksums`
+ */
+export async function storeBaseContents(
+  cwd: string,
+  files: Array<{ target: string; content: string }>,
+): Promise<Record<string, string>> {
+  const baseChecksums: Record<string, string> = {};
+
+  for (const file of files) {
+    baseChecksums[file.target] = await storeBaseContent(cwd, file.content);
+  }
+
+  return baseChecksums;
+}
+
+/**
+ * Read upstream content from the cache
+ * Entries that no longer match their checksum are ignored
+ *
+ * @param cwd - Current working directory
+ * @param checksum - Checksum recorded in the lock entry's `baseChecksums`
+ * @returns Cached content or null if not cached
+ */
+export async function readBaseContent(
+  cwd: string,
+  checksum: string,
+): Promise<string | null> {
+  const cachePath = getCachePath(cwd, checksum);
+
+  if (!(await fileExists(cachePath))) {
+    return null;
+  }
+
+  const content = await readFile(cachePath, "utf-8");
+  return computeContentChecksum(content) === checksum ? content : null;
+}
+
+/**
+ * Get the cache path for a checksum
+ */
+function getCachePath(cwd: string, checksum: string): string {
+  return path.join(cwd, CACHE_DIR, checksum.replace(/^sha256:/, ""));
+}
@@ -0,0 +1,165 @@
+/**
+ * Registry catalogue utilities shared by `list` and `search`
+ */
+
+import chalk from "chalk";
+import { fetchRegistryIndex } from "./registry.js";
+import { readLockFile } from "./lock-file.js";
+import { formatTable } from "./table.js";
+import type { RegistryIndexItem } from "../types/registry.js";
+
+export interface CatalogueEntry {
+  /**
+   * Component name
+   */
+  name: string;
+
+  /**
+   * Display title
+   */
+  title: string | null;
+
+  /**
+   * Component description
+   */
+  description: string | null;
+
+  /**
+   * Current version (null if the item has no versioning metadata)
+   */
+  currentVersion: string | null;
+
+  /**
+   * ISO 8601 date of the current version's changelog entry
+   */
+  lastChanged: string | null;
+
+  /**
+   * Version installed in this project (null if not tracked)
+   */
+  installedVersion: string | null;
+
+  /**
+   * Registry item from the index
+   */
+  item: RegistryIndexItem;
+}
+
+const DESCRIPTION_MAX_LENGTH = 48;
+
+/**
+ * Fetch the registry index and join it with the local lock file
+ *
+ * @param registryUrl - Base registry URL
+ * @param cwd - Current working directory
+ * @returns Catalogue entries sorted by name, or null if there is no index
+ */
+export async function loadCatalogue(
+  registryUrl: string,
+  cwd: string,
+): Promise<CatalogueEntry[] | null> {
+  const [index, lockFile] = await Promise.all([
+    fetchRegistryIndex(registryUrl),
+    readLockFile(cwd),
+  ]);
+
+  if (!index) {
+    return null;
+  }
+
+  return index.items
+    .map((item) => {
+      const versioning = item.meta?.versioning;
+      const currentEntry =
+        versioning?.changelog.entries.find(
+          (entry) => entry.version === versioning.currentVersion,
+        ) ?? versioning?.changelog.entries[0];
+
+      return {
+        name: item.name,
+        title: item.title ?? null,
+        description: item.description ?? null,
+        currentVersion: versioning?.currentVersion ?? null,
+        lastChanged: currentEntry?.date ?? null,
+        installedVersion:
+          lockFile?.components[item.name]?.installedVersion ?? null,
+        item,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Print catalogue entries as a table
+ *
+ * @param entries - Catalogue entries
+ */
+export function printCatalogue(entries: CatalogueEntry[]): void {
+  const rows = entries.map((entry) => [
+    entry.name,
+    entry.title ?? "",
+    entry.currentVersion ?? chalk.gray("-"),
+    entry.lastChanged ? formatDate(entry.lastChanged) : chalk.gray("-"),
+    formatInstalled(entry),
+    chalk.gray(truncate(entry.description ?? "", DESCRIPTION_MAX_LENGTH)),
+  ]);
+
+  console.log(
+    formatTable(
+      ["Name", "Title", "Version", "Changed", "Installed", "Description"],
+      rows,
+    ),
+  );
+}
+
+/**
+ * Serialise catalogue entries for JSON output (without the raw item)
+ *
+ * @param entries - Catalogue entries
+ * @returns Plain objects
+ */
+export function toCatalogueJson(
+  entries: CatalogueEntry[],
+): Array<Omit<CatalogueEntry, "item">> {
+  return entries.map((entry) => ({
+    name: entry.name,
+    title: entry.title,
+    description: entry.description,
+    currentVersion: entry.currentVersion,
+    lastChanged: entry.lastChanged,
+    installedVersion: entry.installedVersion,
+  }));
+}
+
+/**
+ * Format the installed column
+ */
+function formatInstalled(entry: CatalogueEntry): string {
+  if (!entry.installedVersion) {
+    return "";
+  }
+
+  const isLatest = entry.installedVersion === entry.currentVersion;
+  const color = isLatest ? chalk.green : chalk.yellow;
+  return color(`✓ ${entry.installedVersion}`);
+}
+
+/**
+ * Format an ISO date for compact display
+ */
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Truncate text to a maximum length with an ellipsis
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.substring(0, maxLength - 1)}…`
+    : text;
+}
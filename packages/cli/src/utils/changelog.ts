@@ -0,0 +1,74 @@
+/**
+ * Utilities for querying component changelogs
+ */
+
+import type { ChangelogEntry } from "../types/changelog.js";
+
+/**
+ * Get changelog entries between two versions (inclusive)
+ *
+ * @param entries - Changelog entries (sorted newest first)
+ * @param fromVersion - Starting version
+ * @param toVersion - Ending version
+ * @returns Entries in chronological order (oldest first)
+ */
+export function getEntriesBetweenVersions(
+  entries: ChangelogEntry[],
+  fromVersion: string,
+  toVersion: string,
+): ChangelogEntry[] {
+  const fromIndex = entries.findIndex((e) => e.version === fromVersion);
+  const toIndex = entries.findIndex((e) => e.version === toVersion);
+
+  if (fromIndex === -1 || toIndex === -1) {
+    return [];
+  }
+
+  // Entries are sorted newest first, extract range between versions
+  const start = Math.min(fromIndex, toIndex);
+  const end = Math.max(fromIndex, toIndex);
+
+  // Return entries in chronological order (oldest first)
+  return entries.slice(start, end + 1).reverse();
+}
+
+/**
+ * Get the changelog entries crossed when moving from one version to another
+ * The starting version is excluded. Works for upgrades and rollbacks:
+ * a rollback crosses (undoes) the entries newer than the target version.
+ *
+ * @param entries - Changelog entries (sorted newest first)
+ * @param fromVersion - Currently installed version
+ * @param toVersion - Target version
+ * @returns Crossed entries in chronological order (oldest first)
+ */
+export function getCrossedEntries(
+  entries: ChangelogEntry[],
+  fromVersion: string,
+  toVersion: string,
+): ChangelogEntry[] {
+  const fromIndex = entries.findIndex((e) => e.version === fromVersion);
+  const toIndex = entries.findIndex((e) => e.version === toVersion);
+
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) {
+    return [];
+  }
+
+  if (toIndex < fromIndex) {
+    // Upgrade: everything newer than the installed version up to the target
+    return entries.slice(toIndex, fromIndex).reverse();
+  }
+
+  // Rollback: everything newer than the target up to the installed version
+  return entries.slice(fromIndex, toIndex).reverse();
+}
+
+/**
+ * Check whether any of the given entries is a breaking change
+ *
+ * @param entries - Changelog entries
+ * @returns True if at least one entry is marked as breaking
+ */
+export function hasBreakingChanges(entries: ChangelogEntry[]): boolean {
+  return entries.some((entry) => entry.breaking);
+}
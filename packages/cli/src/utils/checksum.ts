@@ -13,8 +13,16 @@ import { readFile } from "fs/promises";
  * @returns Checksum in format: "sha256:abc123..."
  */
 export async function computeChecksum(filePath: string): Promise<string> {
-  const content = await readFile(filePath, "utf-8");
+  return computeContentChecksum(await readFile(filePath, "utf-8"));
+}
 
+/**
+ * Compute SHA-256 checksum of file content that is not on disk yet
+ *
+ * @param content - File content
+ * @returns Checksum in format: "sha256:abc123..."
+ */
+export function computeContentChecksum(content: string): string {
   // Normalize line endings (CRLF -> LF) for cross-platform consistency
   const normalizedContent = content.replace(/\r\n/g, "\n");
 
@@ -25,6 +33,31 @@ export async function computeChecksum(filePath: string): Promise<string> {
   return `sha256:${digest}`;
 }
 
+/**
+ * Compute a formatting-insensitive checksum of source code
+ * Hashes the token stream, ignoring whitespace, quote style, semicolons,
+ * trailing commas and optional parentheses (arrow parameters, multiline
+ * JSX), so running a formatter doesn't change the result
+ *
+ * @param content - File content
+ * @returns Checksum in format: "sha256:abc123..."
+ */
+export function computeSemanticChecksum(content: string): string {
+  return computeContentChecksum(tokenize(content).join(" "));
+}
+
+/**
+ * Compute the semantic checksum of a file
+ *
+ * @param filePath - Absolute path to the file
+ * @returns Checksum in format: "sha256:abc123..."
+ */
+export async function computeSemanticFileChecksum(
+  filePath: string,
+): Promise<string> {
+  return computeSemanticChecksum(await readFile(filePath, "utf-8"));
+}
+
 /**
  * Compare two checksums for equality
  *
@@ -57,3 +90,122 @@ export function formatChecksum(checksum: string): string {
   const end = hash.substring(hash.length - 6);
   return `sha256:${start}...${end}`;
 }
+
+/**
+ * Comments, template literals, strings, words, then single punctuation
+ */
+const TOKEN_PATTERN =
+  /\/\/[^\n]*|\/\*[\s\S]*?\*\/|`(?:\\[\s\S]|[^\\`])*`|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'|[A-Za-z0-9_$]+|\S/g;
+
+/**
+ * Tokens a trailing comma may precede
+ */
+const CLOSING_TOKENS = new Set([")", "]", "}", ">"]);
+
+/**
+ * Tokens after which parentheses around JSX are only grouping
+ */
+const JSX_CONTEXT_TOKENS = new Set([
+  "return",
+  "=",
+  ">",
+  "?",
+  ":",
+  "(",
+  ",",
+  "&",
+  "|",
+  "{",
+  "[",
+]);
+
+/**
+ * A single identifier token
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Split source code into formatting-independent tokens
+ */
+function tokenize(content: string): string[] {
+  const rawTokens = content.match(TOKEN_PATTERN) ?? [];
+  const optionalParens = findOptionalParens(rawTokens);
+  const openBrackets: string[] = [];
+  const tokens: string[] = [];
+
+  for (const [index, token] of rawTokens.entries()) {
+    if (optionalParens.has(index)) {
+      continue;
+    }
+
+    if (token === "(" || token === "[" || token === "{") {
+      openBrackets.push(token);
+    } else if (token === ")" || token === "]" || token === "}") {
+      openBrackets.pop();
+    }
+
+    // Semicolons inside parentheses separate the clauses of a for loop
+    if (token === ";" && openBrackets.at(-1) !== "(") {
+      continue;
+    }
+
+    if (token === "," && CLOSING_TOKENS.has(rawTokens[index + 1] ?? "")) {
+      continue;
+    }
+
+    if (token.startsWith("//") || token.startsWith("/*")) {
+      tokens.push(token.replace(/\s+/g, " "));
+    } else if (token.startsWith("'") || token.startsWith('"')) {
+      // Compare string values, not the quote style used to write them
+      const quote = token[0]!;
+      const value = token.slice(1, -1).replaceAll(`\\${quote}`, quote);
+      tokens.push(`"${value.replaceAll('"', '\\"')}"`);
+    } else {
+      tokens.push(token);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Find parentheses formatters add or drop without changing the code:
+ * around a single arrow function parameter (`(x) =>`) and around
+ * multiline JSX (`return (<div />)`)
+ *
+ * @returns Indexes of both parentheses of every optional pair
+ */
+function findOptionalParens(tokens: string[]): Set<number> {
+  const optionalParens = new Set<number>();
+  const openParens: number[] = [];
+
+  for (const [index, token] of tokens.entries()) {
+    if (token === "(") {
+      openParens.push(index);
+      continue;
+    }
+
+    const open = token === ")" ? openParens.pop() : undefined;
+
+    if (open === undefined) {
+      continue;
+    }
+
+    const isArrowParameter =
+      index === open + 2 &&
+      IDENTIFIER_PATTERN.test(tokens[open + 1]!) &&
+      tokens[index + 1] === "=" &&
+      tokens[index + 2] === ">";
+    const isWrappedJsx =
+      tokens[open + 1] === "<" &&
+      tokens[index - 1] === ">" &&
+      JSX_CONTEXT_TOKENS.has(tokens[open - 1] ?? "");
+
+    if (isArrowParameter || isWrappedJsx) {
+      optionalParens.add(open);
+      optionalParens.add(index);
+    }
+  }
+
+  return optionalParens;
+}
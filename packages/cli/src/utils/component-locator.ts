@@ -3,7 +3,12 @@
  */
 
 import path from "path";
-import { fileExists, readJsonFile } from "./file-operations.js";
+import { fileExists, readDir } from "./file-operations.js";
+import { readComponentsConfig, aliasToDirectory } from "./components-config.js";
+import type { ComponentsConfig } from "./components-config.js";
+import { readConfig } from "./config.js";
+import { namespaceToDirectory, parseComponentName } from "./component-spec.js";
+import type { RegistryFile, RegistryItem } from "../types/registry.js";
 
 export interface ComponentLocation {
   /**
@@ -17,19 +22,27 @@ export interface ComponentLocation {
   exists: boolean;
 }
 
-interface ComponentsConfig {
-  aliases?: {
-    components?: string;
-    ui?: string;
-    utils?: string;
-  };
+export interface ComponentFileLocation extends ComponentLocation {
+  /**
+   * Path of the file in the registry
+   * @example "registry/hooks/use-toggle.ts"
+   */
+  registryPath: string;
+
+  /**
+   * Project-relative path, used as the key in the lock file
+   * @example "hooks/use-toggle.ts"
+   */
+  target: string;
 }
 
 /**
  * Locate a component file in the user's project
- * Tries common paths and reads components.json for path aliases
+ * Uses the directories from voidui.config.json, otherwise tries common
+ * paths and reads components.json for path aliases
  *
- * @param componentName - Name of the component (e.g., "separator")
+ * @param componentName - Name of the component (e.g., "separator" or
+ *   "@acme/button", which is installed as acme/button.tsx)
  * @param cwd - Current working directory
  * @returns Component location with path and existence flag
  */
@@ -37,61 +50,317 @@ export async function locateComponent(
   componentName: string,
   cwd: string,
 ): Promise<ComponentLocation> {
-  const fileName = `${componentName}.tsx`;
-
-  // Try to read components.json for aliases
-  let componentAlias: string | undefined;
-  const configPath = path.join(cwd, "components.json");
-
-  if (await fileExists(configPath)) {
-    const config = await readJsonFile<ComponentsConfig>(configPath);
-    if (config?.aliases?.ui) {
-      componentAlias = config.aliases.ui;
-    } else if (config?.aliases?.components) {
-      componentAlias = config.aliases.components;
+  const { namespace, name } = parseComponentName(componentName);
+  const fileName = `${name}.tsx`;
+  const { directories, defaultDirectory } = getComponentDirectories(
+    cwd,
+    await readComponentsConfig(cwd),
+    (await readConfig(cwd)).componentDirectories,
+    namespace,
+  );
+
+  // Try each directory in order
+  for (const directory of directories) {
+    const tryPath = path.join(directory, fileName);
+    if (await fileExists(tryPath)) {
+      return {
+        path: tryPath,
+        exists: true,
+      };
     }
   }
 
-  // Build list of paths to try
-  const pathsToTry: string[] = [];
+  // Component not found, return the most common default path
+  return {
+    path: path.join(defaultDirectory, fileName),
+    exists: false,
+  };
+}
+
+/**
+ * Locate every file of a registry item in the user's project
+ * Uses the file's `target` if set, otherwise its type and the
+ * components.json aliases (ui, components, hooks, lib); files of
+ * namespaced components go to a subdirectory named after the namespace
+ *
+ * @param registryItem - Registry item
+ * @param cwd - Current working directory
+ * @param namespace - Namespace of the component (e.g., "@acme")
+ * @returns One location per registry file
+ */
+export async function locateComponentFiles(
+  registryItem: Pick<RegistryItem, "files">,
+  cwd: string,
+  namespace?: string,
+): Promise<ComponentFileLocation[]> {
+  const config = await readComponentsConfig(cwd);
+  const { componentDirectories } = await readConfig(cwd);
 
-  // If we have an alias from config, try that first
-  if (componentAlias) {
-    // Handle path aliases like "@/components/ui"
-    const cleanAlias = componentAlias.replace(/^@\//, "");
-    pathsToTry.push(path.join(cwd, cleanAlias, fileName));
+  return Promise.all(
+    registryItem.files.map(async (file) => {
+      const filePath = await resolveFilePath(
+        file,
+        cwd,
+        config,
+        componentDirectories,
+        namespace,
+      );
 
-    // Also try with "src/" prefix if alias doesn't start with it
-    if (!cleanAlias.startsWith("src/")) {
-      pathsToTry.push(path.join(cwd, "src", cleanAlias, fileName));
+      return {
+        registryPath: file.path,
+        target: toTarget(filePath, cwd),
+        path: filePath,
+        exists: await fileExists(filePath),
+      };
+    }),
+  );
+}
+
+/**
+ * List component files found in the project's component directories
+ *
+ * @param cwd - Current working directory
+ * @returns Absolute paths of `.tsx` files, sorted
+ */
+export async function listLocalComponentFiles(cwd: string): Promise<string[]> {
+  const { directories } = getComponentDirectories(
+    cwd,
+    await readComponentsConfig(cwd),
+    (await readConfig(cwd)).componentDirectories,
+  );
+  const files = new Set<string>();
+
+  for (const directory of directories) {
+    for (const file of await readDir(directory)) {
+      if (file.endsWith(".tsx")) {
+        files.add(path.join(directory, file));
+      }
     }
   }
 
-  // Common fallback paths
-  pathsToTry.push(
-    path.join(cwd, "components", "ui", fileName),
-    path.join(cwd, "src", "components", "ui", fileName),
-    path.join(cwd, "app", "components", "ui", fileName),
-    path.join(cwd, "lib", "components", "ui", fileName),
+  return [...files].sort();
+}
+
+/**
+ * Convert an absolute path to a project-relative lock file key
+ *
+ * @param filePath - Absolute path
+ * @param cwd - Current working directory
+ * @returns POSIX-style relative path (e.g., "components/ui/separator.tsx")
+ */
+export function toTarget(filePath: string, cwd: string): string {
+  return path.relative(cwd, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Resolve an explicit registry file target inside the project
+ * Targets may start with "~/" for the project root
+ *
+ * @param target - `target` of a registry file
+ * @param cwd - Current working directory
+ * @returns Absolute path
+ * @throws If the target is absolute or outside the project
+ */
+export function resolveProjectPath(target: string, cwd: string): string {
+  const relativeTarget = target.replace(/^~\//, "");
+  const filePath = path.resolve(cwd, relativeTarget);
+  const relativePath = path.relative(cwd, filePath);
+
+  if (
+    path.isAbsolute(relativeTarget) ||
+    relativePath === "" ||
+    relativePath === ".." ||
+    relativePath.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relativePath)
+  ) {
+    throw new Error(
+      `Registry file target "${target}" is outside the project.\n   Targets must be relative paths inside ${cwd}`,
+    );
+  }
+
+  return filePath;
+}
+
+/**
+ * Resolve where a registry file lives in the user's project
+ */
+async function resolveFilePath(
+  file: RegistryFile,
+  cwd: string,
+  config: ComponentsConfig | null,
+  componentDirectories: string[] | undefined,
+  namespace: string | undefined,
+): Promise<string> {
+  const fileName = path.basename(file.path);
+
+  // Explicit targets are relative to the project root
+  if (file.target) {
+    return resolveProjectPath(file.target, cwd);
+  }
+
+  if (file.type === "registry:ui" || file.path.includes("/components/ui/")) {
+    const { directories, defaultDirectory } = getComponentDirectories(
+      cwd,
+      config,
+      componentDirectories,
+      namespace,
+    );
+    return findExisting(directories, fileName, defaultDirectory);
+  }
+
+  const aliasDirectory = getTypeAlias(file.type, config);
+
+  if (!aliasDirectory) {
+    // Unknown file types are installed next to the UI components
+    const { defaultDirectory } = getComponentDirectories(
+      cwd,
+      config,
+      componentDirectories,
+      namespace,
+    );
+    return path.join(defaultDirectory, fileName);
+  }
+
+  const directory = path.join(
+    aliasToDirectory(aliasDirectory),
+    namespace ? namespaceToDirectory(namespace) : "",
+  );
+  return findExisting(
+    [path.join(cwd, directory), path.join(cwd, "src", directory)],
+    fileName,
+    path.join(cwd, directory),
   );
+}
+
+/**
+ * Get the components.json alias a registry file type is installed to
+ */
+function getTypeAlias(
+  type: string,
+  config: ComponentsConfig | null,
+): string | undefined {
+  switch (type) {
+    case "registry:hook":
+      return config?.aliases?.hooks ?? "hooks";
+    case "registry:lib":
+      return config?.aliases?.lib ?? "lib";
+    case "registry:component":
+    case "registry:block":
+      return config?.aliases?.components ?? "components";
+    default:
+      return undefined;
+  }
+}
 
-  // Try each path in order
-  for (const tryPath of pathsToTry) {
+/**
+ * Return the first existing `<directory>/<fileName>`, or the default
+ */
+async function findExisting(
+  directories: string[],
+  fileName: string,
+  defaultDirectory: string,
+): Promise<string> {
+  for (const directory of directories) {
+    const tryPath = path.join(directory, fileName);
     if (await fileExists(tryPath)) {
-      return {
-        path: tryPath,
-        exists: true,
-      };
+      return tryPath;
     }
   }
 
-  // Component not found, return the most common default path
-  const defaultPath = componentAlias
-    ? path.join(cwd, componentAlias.replace(/^@\//, ""), fileName)
-    : path.join(cwd, "components", "ui", fileName);
+  return path.join(defaultDirectory, fileName);
+}
+
+/**
+ * Get the directories UI components may live in, in lookup order
+ * Directories from voidui.config.json are used as is; otherwise uses the
+ * ui/components alias from components.json and common fallbacks
+ *
+ * Namespaced components live in a subdirectory of each
+ *
+ * @param cwd - Current working directory
+ * @param config - Parsed components.json (if any)
+ * @param componentDirectories - Directories from voidui.config.json (if any)
+ * @param namespace - Namespace of the component (if any)
+ * @returns Candidate directories and the default install directory
+ */
+function getComponentDirectories(
+  cwd: string,
+  config: ComponentsConfig | null,
+  componentDirectories?: string[],
+  namespace?: string,
+): {
+  directories: string[];
+  defaultDirectory: string;
+} {
+  const { directories, defaultDirectory } = getProjectComponentDirectories(
+    cwd,
+    config,
+    componentDirectories,
+  );
+
+  if (!namespace) {
+    return { directories, defaultDirectory };
+  }
+
+  const inNamespace = (directory: string) =>
+    path.join(directory, namespaceToDirectory(namespace));
 
   return {
-    path: defaultPath,
-    exists: false,
+    directories: directories.map(inNamespace),
+    defaultDirectory: inNamespace(defaultDirectory),
   };
 }
+
+/**
+ * Get the project's UI component directories, without namespaces
+ */
+function getProjectComponentDirectories(
+  cwd: string,
+  config: ComponentsConfig | null,
+  componentDirectories?: string[],
+): {
+  directories: string[];
+  defaultDirectory: string;
+} {
+  const [firstDirectory, ...otherDirectories] = componentDirectories ?? [];
+
+  if (firstDirectory) {
+    return {
+      directories: [firstDirectory, ...otherDirectories].map((directory) =>
+        path.join(cwd, directory),
+      ),
+      defaultDirectory: path.join(cwd, firstDirectory),
+    };
+  }
+
+  const componentAlias = config?.aliases?.ui ?? config?.aliases?.components;
+
+  // Build list of directories to try
+  const directories: string[] = [];
+
+  // If we have an alias from config, try that first
+  if (componentAlias) {
+    // Handle path aliases like "@/components/ui"
+    const cleanAlias = aliasToDirectory(componentAlias);
+    directories.push(path.join(cwd, cleanAlias));
+
+    // Also try with "src/" prefix if alias doesn't start with it
+    if (!cleanAlias.startsWith("src/")) {
+      directories.push(path.join(cwd, "src", cleanAlias));
+    }
+  }
+
+  // Common fallback paths
+  directories.push(
+    path.join(cwd, "components", "ui"),
+    path.join(cwd, "src", "components", "ui"),
+    path.join(cwd, "app", "components", "ui"),
+    path.join(cwd, "lib", "components", "ui"),
+  );
+
+  const defaultDirectory = componentAlias
+    ? path.join(cwd, aliasToDirectory(componentAlias))
+    : path.join(cwd, "components", "ui");
+
+  return { directories: [...new Set(directories)], defaultDirectory };
+}
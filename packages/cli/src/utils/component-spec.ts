@@ -0,0 +1,108 @@
+/**
+ * Utilities for parsing component specifiers from the command line
+ */
+
+import { isValidVersion } from "./semver.js";
+
+export interface ComponentSpec {
+  /**
+   * Component name
+   * @example "separator"
+   */
+  name: string;
+
+  /**
+   * Requested version, if any
+   * @example "1.1.0"
+   */
+  version?: string;
+}
+
+/**
+ * Parse a component specifier like "separator" or "separator@1.1.0"
+ *
+ * @param spec - Component specifier
+ * @returns Parsed component name and optional version
+ * @throws If the version is not in semver format
+ */
+export function parseComponentSpec(spec: string): ComponentSpec {
+  const separatorIndex = spec.lastIndexOf("@");
+
+  // A leading "@" is not a version separator
+  if (separatorIndex <= 0) {
+    return { name: spec };
+  }
+
+  const name = spec.substring(0, separatorIndex);
+  const version = spec.substring(separatorIndex + 1);
+
+  if (!isValidVersion(version)) {
+    throw new Error(
+      `Invalid version "${version}" in "${spec}". Version must be in semver format (e.g., 1.0.0)`,
+    );
+  }
+
+  return { name, version };
+}
+
+export interface ComponentName {
+  /**
+   * Registry namespace, if the component comes from a named registry
+   * @example "@acme"
+   */
+  namespace?: string;
+
+  /**
+   * Name of the component within its registry
+   * @example "button"
+   */
+  name: string;
+}
+
+const NAMESPACED_PATTERN = /^(@[a-z0-9][a-z0-9-]*)\/(.+)$/i;
+
+/**
+ * Split a component name like "@acme/button" into namespace and name
+ * Namespaced components are tracked under their full name, so two
+ * registries can each ship a "button"
+ *
+ * @param component - Component name, with or without a namespace
+ * @returns Namespace (if any) and name within the registry
+ */
+export function parseComponentName(component: string): ComponentName {
+  const match = NAMESPACED_PATTERN.exec(component);
+
+  return match
+    ? { namespace: match[1]!, name: match[2]! }
+    : { name: component };
+}
+
+/**
+ * Qualify a component name with a namespace
+ * Names that already carry a namespace keep it
+ *
+ * @param component - Component name
+ * @param namespace - Namespace to apply (e.g., "@acme")
+ * @returns Namespaced component name
+ */
+export function formatComponentName(
+  component: string,
+  namespace: string | undefined,
+): string {
+  if (!namespace || parseComponentName(component).namespace) {
+    return component;
+  }
+
+  return `${namespace}/${component}`;
+}
+
+/**
+ * Get the directory a namespace's components are installed under, so
+ * "@acme/button" doesn't overwrite a plain "button"
+ *
+ * @param namespace - Namespace (e.g., "@acme")
+ * @returns Directory name (e.g., "acme")
+ */
+export function namespaceToDirectory(namespace: string): string {
+  return namespace.replace(/^@/, "");
+}
@@ -0,0 +1,66 @@
+/**
+ * Utilities for reading the shadcn components.json configuration
+ */
+
+import path from "path";
+import { fileExists, readJsonFile } from "./file-operations.js";
+
+export interface ComponentsConfig {
+  /**
+   * Import aliases used when installing components
+   */
+  aliases?: {
+    /**
+     * @example "@/components"
+     */
+    components?: string;
+
+    /**
+     * @example "@/components/ui"
+     */
+    ui?: string;
+
+    /**
+     * @example "@/lib/utils"
+     */
+    utils?: string;
+
+    /**
+     * @example "@/lib"
+     */
+    lib?: string;
+
+    /**
+     * @example "@/hooks"
+     */
+    hooks?: string;
+  };
+}
+
+/**
+ * Read components.json from the project root
+ *
+ * @param cwd - Current working directory
+ * @returns Parsed config or null if not found
+ */
+export async function readComponentsConfig(
+  cwd: string,
+): Promise<ComponentsConfig | null> {
+  const configPath = path.join(cwd, "components.json");
+
+  if (!(await fileExists(configPath))) {
+    return null;
+  }
+
+  return readJsonFile<ComponentsConfig>(configPath);
+}
+
+/**
+ * Convert an import alias to a project-relative directory
+ *
+ * @param alias - Alias from components.json (e.g., "@/components/ui")
+ * @returns Relative directory (e.g., "components/ui")
+ */
+export function aliasToDirectory(alias: string): string {
+  return alias.replace(/^[@~]\//, "");
+}
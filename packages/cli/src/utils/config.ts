@@ -0,0 +1,185 @@
+/**
+ * Project configuration utilities
+ * Handles reading and writing voidui.config.json
+ */
+
+import path from "path";
+import { voiduiConfigSchema } from "../validators/config.js";
+import type { VoiduiConfig } from "../types/config.js";
+import type { ComponentLockEntry } from "../types/lock-file.js";
+import { fileExists, readJsonFile, writeJsonFile } from "./file-operations.js";
+import { parseComponentName } from "./component-spec.js";
+
+export const CONFIG_FILE_NAME = "voidui.config.json";
+export const DEFAULT_REGISTRY_URL = "https://voidui.dev/r";
+
+/**
+ * Environment variable that overrides the configured registry
+ */
+const REGISTRY_ENV_VAR = "VOIDUI_REGISTRY";
+
+/**
+ * Read voidui.config.json from the project root
+ *
+ * @param cwd - Current working directory
+ * @returns Validated config, or an empty config if there is no file
+ * @throws If the file is not valid JSON or fails validation
+ */
+export async function readConfig(cwd: string): Promise<VoiduiConfig> {
+  const configPath = path.join(cwd, CONFIG_FILE_NAME);
+
+  if (!(await fileExists(configPath))) {
+    return {};
+  }
+
+  const rawConfig = await readJsonFile<unknown>(configPath);
+
+  if (!rawConfig || typeof rawConfig !== "object" || Array.isArray(rawConfig)) {
+    throw new Error(`${CONFIG_FILE_NAME} is not a valid JSON object.`);
+  }
+
+  const result = voiduiConfigSchema.safeParse(rawConfig);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `   - ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    );
+
+    throw new Error(
+      `${CONFIG_FILE_NAME} is invalid:\n${issues.join("\n")}\n` +
+        "   Fix the fields above or recreate the file with `voidui init --force`.",
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Config per project directory, for settings looked up on every
+ * registry request
+ */
+const configCache = new Map<string, Promise<VoiduiConfig>>();
+
+/**
+ * Read voidui.config.json once per run
+ *
+ * @param cwd - Current working directory
+ * @returns Validated config, or an empty config if there is no file
+ * @throws If the file is not valid JSON or fails validation
+ */
+export function readCachedConfig(cwd: string): Promise<VoiduiConfig> {
+  let config = configCache.get(cwd);
+
+  if (!config) {
+    config = readConfig(cwd);
+    configCache.set(cwd, config);
+  }
+
+  return config;
+}
+
+/**
+ * Write voidui.config.json to the project root
+ *
+ * @param cwd - Current working directory
+ * @param config - Config to write
+ */
+export async function writeConfig(
+  cwd: string,
+  config: VoiduiConfig,
+): Promise<void> {
+  await writeJsonFile(path.join(cwd, CONFIG_FILE_NAME), config);
+}
+
+/**
+ * Resolve the registry URL for a command
+ * Precedence: --registry flag, VOIDUI_REGISTRY, voidui.config.json, default
+ *
+ * @param cwd - Current working directory
+ * @param flag - Value of the --registry flag (if given)
+ * @returns Registry URL without a trailing slash
+ */
+export async function resolveRegistryUrl(
+  cwd: string,
+  flag?: string,
+): Promise<string> {
+  return normalizeRegistryUrl(
+    flag ||
+      process.env[REGISTRY_ENV_VAR] ||
+      (await readConfig(cwd)).registry ||
+      DEFAULT_REGISTRY_URL,
+  );
+}
+
+/**
+ * Resolve the registry URL for a component that is not tracked yet
+ * Namespaced components ("@acme/button") use the registry configured for
+ * their namespace unless --registry is given
+ *
+ * @param cwd - Current working directory
+ * @param component - Component name, with or without a namespace
+ * @param flag - Value of the --registry flag (if given)
+ * @returns Registry URL without a trailing slash
+ * @throws If the namespace is not configured
+ */
+export async function resolveComponentRegistryUrl(
+  cwd: string,
+  component: string,
+  flag?: string,
+): Promise<string> {
+  const { namespace } = parseComponentName(component);
+
+  if (!namespace || flag) {
+    return resolveRegistryUrl(cwd, flag);
+  }
+
+  const registries = (await readConfig(cwd)).registries ?? {};
+  const registryUrl = registries[namespace];
+
+  if (!registryUrl) {
+    const configured = Object.keys(registries);
+
+    throw new Error(
+      `Unknown registry namespace "${namespace}".\n` +
+        (configured.length > 0
+          ? `   Configured namespaces: ${configured.join(", ")}\n`
+          : "") +
+        `   Add it under registries in ${CONFIG_FILE_NAME}, e.g. { "${namespace}": "https://..." }`,
+    );
+  }
+
+  return normalizeRegistryUrl(registryUrl);
+}
+
+/**
+ * Pick the registry for a tracked component
+ * An explicit --registry flag wins over the registry recorded in the lock
+ * entry, which wins over the project default
+ *
+ * @param entry - Lock entry (if the component is tracked)
+ * @param registryUrl - Registry from resolveRegistryUrl
+ * @param isOverride - Whether registryUrl came from the --registry flag
+ * @returns Registry URL to use for the component
+ */
+export function getComponentRegistryUrl(
+  entry: Pick<ComponentLockEntry, "registryUrl"> | null | undefined,
+  registryUrl: string,
+  isOverride: boolean,
+): string {
+  return isOverride ? registryUrl : entry?.registryUrl || registryUrl;
+}
+
+/**
+ * Strip the trailing slash from a registry URL
+ * The URL is recorded in voidui.lock.json, so it must not carry secrets
+ */
+function normalizeRegistryUrl(registryUrl: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\/[^/]*@/i.test(registryUrl)) {
+    throw new Error(
+      "Registry URLs must not contain credentials.\n" +
+        `   Configure them under registryAuth in ${CONFIG_FILE_NAME} instead.`,
+    );
+  }
+
+  return registryUrl.replace(/\/+$/, "");
+}
@@ -0,0 +1,530 @@
+/**
+ * Registry dependency graph resolution
+ * Follows `registryDependencies` recursively and picks a version of every
+ * dependency that satisfies the components requiring it
+ */
+
+import {
+  fetchRegistryItem,
+  getRegistryDependencyName,
+  resolveRegistryItemVersion,
+} from "./registry.js";
+import {
+  isValidRange,
+  resolveWantedVersion,
+  satisfiesRange,
+} from "./semver.js";
+import { formatComponentName, parseComponentName } from "./component-spec.js";
+import type { LockFile } from "../types/lock-file.js";
+import type { RegistryItem } from "../types/registry.js";
+
+export interface RegistryDependency {
+  /**
+   * Component name, namespaced if it comes from a named registry
+   * @example "button"
+   */
+  name: string;
+
+  /**
+   * Semver range the dependent requires ("*" when unconstrained)
+   * @example "^1.2.0"
+   */
+  range: string;
+
+  /**
+   * Registry the dependency is served from, for full item URLs
+   * @example "https://voidui.dev/r"
+   */
+  registryUrl?: string;
+}
+
+export interface DependencySource {
+  /**
+   * Namespace of the dependent component
+   * @example "@acme"
+   */
+  namespace?: string;
+
+  /**
+   * Registry the dependent component is installed from
+   */
+  registryUrl?: string;
+
+  /**
+   * Named registries from voidui.config.json
+   */
+  registries?: Record<string, string>;
+}
+
+export interface DependencyRequirement {
+  /**
+   * Component that requires the dependency
+   */
+  dependent: string;
+
+  /**
+   * Range it requires
+   */
+  range: string;
+}
+
+export interface ResolvedDependency {
+  /**
+   * Component name, as tracked in the lock file
+   * @example "@acme/icon"
+   */
+  name: string;
+
+  /**
+   * Registry the dependency is installed from
+   */
+  registryUrl: string;
+
+  /**
+   * Version to install, the installed version if already tracked, or null
+   * if the registry doesn't track its versions
+   */
+  version: string | null;
+
+  /**
+   * Registry item at `version` (null if already tracked or untracked)
+   */
+  item: RegistryItem | null;
+
+  /**
+   * Components requiring this dependency
+   */
+  requiredBy: DependencyRequirement[];
+}
+
+export interface DependencyConflict {
+  /**
+   * Dependency that can't be resolved
+   */
+  name: string;
+
+  /**
+   * Human-readable explanation
+   */
+  message: string;
+}
+
+export interface DependencyGraph {
+  /**
+   * Every dependency, ordered so dependencies come before their dependents
+   */
+  dependencies: ResolvedDependency[];
+
+  /**
+   * Dependency cycles, each starting and ending with the same component
+   * @example [["dialog", "button", "dialog"]]
+   */
+  cycles: string[][];
+
+  /**
+   * Dependencies no version could be picked for
+   */
+  conflicts: DependencyConflict[];
+}
+
+export interface UnsatisfiedDependency {
+  /**
+   * Component whose lock entry records the dependency
+   */
+  dependent: string;
+
+  /**
+   * Dependency name
+   */
+  name: string;
+
+  /**
+   * Range the dependent requires
+   */
+  range: string;
+
+  /**
+   * Installed version, or undefined if the dependency is not tracked
+   */
+  installedVersion?: string;
+}
+
+/**
+ * Parse an entry from `registryDependencies`
+ * Supports plain names ("button"), names with a range ("button@^1.2.0"),
+ * namespaced names ("@acme/button@^1.0.0") and full item URLs
+ * ("https://voidui.dev/r/button.json")
+ *
+ * @param dependency - Entry from `registryDependencies`
+ * @returns Parsed dependency
+ * @throws If the range is not a valid semver range
+ */
+export function parseRegistryDependency(
+  dependency: string,
+): RegistryDependency {
+  if (/^https?:\/\//.test(dependency)) {
+    return {
+      name: getRegistryDependencyName(dependency),
+      range: "*",
+      registryUrl: dependency.substring(0, dependency.lastIndexOf("/")),
+    };
+  }
+
+  const separatorIndex = dependency.lastIndexOf("@");
+
+  // A leading "@" is not a range separator
+  if (separatorIndex <= 0) {
+    return { name: dependency, range: "*" };
+  }
+
+  const range = dependency.substring(separatorIndex + 1);
+
+  if (!isValidRange(range)) {
+    throw new Error(
+      `Invalid range "${range}" in registry dependency "${dependency}"`,
+    );
+  }
+
+  return { name: dependency.substring(0, separatorIndex), range };
+}
+
+/**
+ * Get the dependency edges recorded in a lock entry for a registry item
+ * Full item URLs from a registry without a namespace are keyed by their
+ * URL, so they never match a component from another registry
+ *
+ * @param registryItem - Registry item at the installed version
+ * @param source - Namespace and registry of the component the item belongs to
+ * @returns Required range keyed by dependency name, or undefined if none
+ */
+export function getDependencyEdges(
+  registryItem: Pick<RegistryItem, "registryDependencies">,
+  source: DependencySource = {},
+): Record<string, string> | undefined {
+  const dependencies = (registryItem.registryDependencies ?? []).map(
+    parseRegistryDependency,
+  );
+
+  if (dependencies.length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    dependencies.map((dependency) => [
+      qualifyDependency(dependency, source, false).name,
+      dependency.range,
+    ]),
+  );
+}
+
+/**
+ * Resolve the registry dependencies of a component recursively
+ * Tracked dependencies keep their installed version; others get the newest
+ * version satisfying the first component that requires them
+ *
+ * Plain dependency names come from the dependent's registry and namespace;
+ * names in another namespace and full item URLs come from the registry
+ * configured for that namespace
+ *
+ * @param component - Name of the component being installed
+ * @param registryItem - Registry item at the version being installed
+ * @param registryUrl - Registry the component is installed from
+ * @param lockFile - Current lock file (if any)
+ * @param registries - Named registries from voidui.config.json
+ * Dependencies without version tracking (e.g. shadcn's "utils") are
+ * reported with a null version and not followed
+ *
+ * @returns Resolved dependencies with any cycles and conflicts
+ * @throws If a resolved version can't be fetched from its registry, or a
+ *   dependency's registry has no namespace in voidui.config.json
+ */
+export async function resolveDependencyGraph(
+  component: string,
+  registryItem: RegistryItem,
+  registryUrl: string,
+  lockFile: LockFile | null,
+  registries: Record<string, string> = {},
+): Promise<DependencyGraph> {
+  const graph: DependencyGraph = {
+    dependencies: [],
+    cycles: [],
+    conflicts: [],
+  };
+  const resolved = new Map<string, ResolvedDependency>();
+
+  const visit = async (
+    dependent: string,
+    item: RegistryItem,
+    itemRegistryUrl: string,
+    stack: string[],
+  ): Promise<void> => {
+    for (const entry of item.registryDependencies ?? []) {
+      const dependency = qualifyDependency(
+        parseRegistryDependency(entry),
+        {
+          namespace: parseComponentName(dependent).namespace,
+          registryUrl: itemRegistryUrl,
+          registries,
+        },
+        true,
+      );
+      const requirement = { dependent, range: dependency.range };
+
+      // 1. Cycles are reported once and not followed
+      if (stack.includes(dependency.name)) {
+        graph.cycles.push([
+          ...stack.slice(stack.indexOf(dependency.name)),
+          dependency.name,
+        ]);
+        continue;
+      }
+
+      // 2. Already resolved through another component
+      const existing = resolved.get(dependency.name);
+
+      if (existing) {
+        existing.requiredBy.push(requirement);
+
+        if (
+          existing.version !== null &&
+          !satisfiesRange(existing.version, dependency.range)
+        ) {
+          graph.conflicts.push({
+            name: dependency.name,
+            message: `${dependent} requires ${dependency.name}@${dependency.range}, but ${formatRequirements(existing)} resolved ${existing.version}`,
+          });
+        }
+        continue;
+      }
+
+      // 3. Tracked dependencies are never moved implicitly
+      const lockEntry = lockFile?.components[dependency.name];
+
+      if (lockEntry) {
+        const trackedDependency: ResolvedDependency = {
+          name: dependency.name,
+          registryUrl:
+            lockEntry.registryUrl ?? dependency.registryUrl ?? itemRegistryUrl,
+          version: lockEntry.installedVersion,
+          item: null,
+          requiredBy: [requirement],
+        };
+        resolved.set(dependency.name, trackedDependency);
+        graph.dependencies.push(trackedDependency);
+
+        if (!satisfiesRange(lockEntry.installedVersion, dependency.range)) {
+          graph.conflicts.push({
+            name: dependency.name,
+            message: `${dependent} requires ${dependency.name}@${dependency.range}, but ${lockEntry.installedVersion} is installed`,
+          });
+        }
+        continue;
+      }
+
+      // 4. Pick the newest version within the required range
+      const dependencyRegistryUrl = dependency.registryUrl ?? itemRegistryUrl;
+      const latestItem = await fetchRegistryItem(
+        dependency.name,
+        dependencyRegistryUrl,
+      );
+      const versioning = latestItem?.meta?.versioning;
+
+      if (!latestItem || !versioning) {
+        const untrackedDependency: ResolvedDependency = {
+          name: dependency.name,
+          registryUrl: dependencyRegistryUrl,
+          version: null,
+          item: null,
+          requiredBy: [requirement],
+        };
+        resolved.set(dependency.name, untrackedDependency);
+        graph.dependencies.push(untrackedDependency);
+        continue;
+      }
+
+      const availableVersions = [
+        ...new Set([
+          versioning.currentVersion,
+          ...versioning.availableVersions,
+        ]),
+      ];
+      const version = resolveWantedVersion(availableVersions, dependency.range);
+
+      if (!version) {
+        graph.conflicts.push({
+          name: dependency.name,
+          message: `${dependent} requires ${dependency.name}@${dependency.range}, but only ${availableVersions.join(", ")} are available`,
+        });
+        continue;
+      }
+
+      const versionItem =
+        version === versioning.currentVersion
+          ? latestItem
+          : await resolveRegistryItemVersion(
+              dependency.name,
+              version,
+              dependencyRegistryUrl,
+            );
+
+      if (!versionItem) {
+        throw new Error(
+          `Version ${version} of ${dependency.name} is not available from ${dependencyRegistryUrl}`,
+        );
+      }
+
+      const resolvedDependency: ResolvedDependency = {
+        name: dependency.name,
+        registryUrl: dependencyRegistryUrl,
+        version,
+        item: versionItem,
+        requiredBy: [requirement],
+      };
+      resolved.set(dependency.name, resolvedDependency);
+
+      // 5. Dependencies of the dependency come first in install order
+      await visit(dependency.name, versionItem, dependencyRegistryUrl, [
+        ...stack,
+        dependency.name,
+      ]);
+      graph.dependencies.push(resolvedDependency);
+    }
+  };
+
+  await visit(component, registryItem, registryUrl, [component]);
+
+  return graph;
+}
+
+/**
+ * Find dependency edges in the lock file that the installed versions
+ * no longer satisfy
+ *
+ * @param lockFile - Lock file
+ * @returns Unsatisfied edges, including dependencies that are not tracked
+ */
+export function findUnsatisfiedDependencies(
+  lockFile: LockFile,
+): UnsatisfiedDependency[] {
+  return Object.entries(lockFile.components).flatMap(([dependent, entry]) =>
+    Object.entries(entry.registryDependencies ?? {})
+      .map(([name, range]) => ({
+        dependent,
+        name,
+        range,
+        installedVersion: lockFile.components[name]?.installedVersion,
+      }))
+      .filter(
+        (edge) =>
+          !edge.installedVersion ||
+          !satisfiesRange(edge.installedVersion, edge.range),
+      ),
+  );
+}
+
+/**
+ * Key a dependency like the lock file does
+ * Plain names inherit the dependent's namespace; names in another
+ * namespace get the registry configured for it; full item URLs are keyed
+ * by the namespace of their registry
+ *
+ * @param dependency - Parsed dependency
+ * @param source - Namespace and registry of the dependent
+ * @param strict - Whether unconfigured registries are an error (otherwise
+ *   they keep their name, or their URL for full item URLs)
+ * @returns Dependency with its namespaced name
+ * @throws In strict mode, if the dependency's registry is not configured
+ */
+function qualifyDependency(
+  dependency: RegistryDependency,
+  source: DependencySource,
+  strict: boolean,
+): RegistryDependency {
+  const registries = source.registries ?? {};
+
+  if (dependency.registryUrl) {
+    return qualifyUrlDependency(
+      dependency,
+      dependency.registryUrl,
+      source,
+      strict,
+    );
+  }
+
+  const dependencyNamespace = parseComponentName(dependency.name).namespace;
+
+  if (!dependencyNamespace || dependencyNamespace === source.namespace) {
+    return {
+      ...dependency,
+      name: formatComponentName(dependency.name, source.namespace),
+    };
+  }
+
+  const registryUrl = registries[dependencyNamespace];
+
+  if (!registryUrl) {
+    if (!strict) {
+      return dependency;
+    }
+
+    throw new Error(
+      `Registry dependency "${dependency.name}" uses the namespace ${dependencyNamespace}, which is not configured under registries in voidui.config.json`,
+    );
+  }
+
+  return { ...dependency, registryUrl: trimSlashes(registryUrl) };
+}
+
+/**
+ * Key a full item URL dependency by the namespace of its registry
+ * Items from the dependent's own registry share its namespace
+ */
+function qualifyUrlDependency(
+  dependency: RegistryDependency,
+  itemRegistryUrl: string,
+  source: DependencySource,
+  strict: boolean,
+): RegistryDependency {
+  const registryUrl = trimSlashes(itemRegistryUrl);
+
+  if (source.registryUrl && trimSlashes(source.registryUrl) === registryUrl) {
+    return {
+      ...dependency,
+      name: formatComponentName(dependency.name, source.namespace),
+    };
+  }
+
+  const namespace = Object.entries(source.registries ?? {}).find(
+    ([, url]) => trimSlashes(url) === registryUrl,
+  )?.[0];
+
+  if (namespace) {
+    return { ...dependency, name: `${namespace}/${dependency.name}` };
+  }
+
+  if (strict) {
+    throw new Error(
+      `Registry dependency "${registryUrl}/${dependency.name}.json" comes from a registry without a namespace.\n` +
+        `   Add it under registries in voidui.config.json, e.g. { "@name": "${registryUrl}" }`,
+    );
+  }
+
+  return { ...dependency, name: `${registryUrl}/${dependency.name}` };
+}
+
+/**
+ * Format the components requiring a dependency for conflict messages
+ */
+function formatRequirements(dependency: ResolvedDependency): string {
+  return dependency.requiredBy
+    .slice(0, -1)
+    .map((requirement) => `${requirement.dependent} (${requirement.range})`)
+    .join(", ");
+}
+
+/**
+ * Remove trailing slashes from a registry URL
+ */
+function trimSlashes(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -2,8 +2,10 @@
  * Utilities for formatting diffs and changelogs for terminal output
  */
 
+import path from "path";
 import { createPatch } from "diff";
 import chalk from "chalk";
+import type { PackageChange, PackageDelta } from "./package-delta.js";
 import type { ChangelogEntry } from "../types/changelog.js";
 
 export interface DiffOptions {
@@ -47,6 +49,18 @@ export function formatDiff(
   return highlightDiff(patch);
 }
 
+/**
+ * Build a diff label for a file at a specific version
+ *
+ * @param fileName - File name (e.g., "separator.tsx")
+ * @param version - Version or other qualifier (e.g., "1.0.0", "local")
+ * @returns Label such as "separator@1.0.0.tsx"
+ */
+export function formatVersionLabel(fileName: string, version: string): string {
+  const extension = path.extname(fileName);
+  return `${path.basename(fileName, extension)}@${version}${extension}`;
+}
+
 /**
  * Apply syntax highlighting to a unified diff
  * Uses chalk for terminal colors
@@ -155,6 +169,32 @@ export function formatChangelogSummary(entry: ChangelogEntry): string {
   return lines.join("\n");
 }
 
+/**
+ * Format npm dependency changes between two component versions
+ *
+ * @param delta - Dependency delta
+ * @returns One line per added, changed or removed package
+ */
+export function formatPackageDelta(delta: PackageDelta): string {
+  const devLabel = (change: PackageChange) =>
+    change.dev ? chalk.gray(" (dev)") : "";
+
+  return [
+    ...delta.added.map(
+      (change) =>
+        `  ${getChangeIcon("added")} ${chalk.green(change.to)}${devLabel(change)}`,
+    ),
+    ...delta.changed.map(
+      (change) =>
+        `  ${getChangeIcon("changed")} ${chalk.blue(`${change.from} → ${change.to}`)}${devLabel(change)}`,
+    ),
+    ...delta.removed.map(
+      (change) =>
+        `  ${getChangeIcon("removed")} ${chalk.red(change.from)}${devLabel(change)}`,
+    ),
+  ].join("\n");
+}
+
 /**
  * Filter changelog entries between two versions
  */
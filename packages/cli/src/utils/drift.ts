@@ -0,0 +1,154 @@
+/**
+ * Utilities for detecting local drift of tracked component files
+ */
+
+import path from "path";
+import { locateComponent, toTarget } from "./component-locator.js";
+import type { ComponentFileLocation } from "./component-locator.js";
+import {
+  computeChecksum,
+  computeSemanticFileChecksum,
+  compareChecksums,
+} from "./checksum.js";
+import { fileExists } from "./file-operations.js";
+import type { ComponentLockEntry } from "../types/lock-file.js";
+
+/**
+ * "reformatted" files differ only in formatting (whitespace, quotes,
+ * semicolons, trailing commas) from what was installed
+ */
+export type FileDriftState =
+  | "unchanged"
+  | "reformatted"
+  | "modified"
+  | "missing";
+
+export interface FileDrift {
+  /**
+   * Project-relative path (the key in the lock entry's `files`)
+   * @example "components/ui/separator.tsx"
+   */
+  target: string;
+
+  /**
+   * Absolute path to the file
+   */
+  path: string;
+
+  /**
+   * State of the file compared to its recorded checksum
+   */
+  state: FileDriftState;
+}
+
+/**
+ * Compare every file tracked for a component against its recorded checksum
+ * Entries written before multi-file tracking only cover the main file
+ *
+ * @param component - Component name
+ * @param entry - Lock entry
+ * @param cwd - Current working directory
+ * @returns One drift record per tracked file
+ */
+export async function checkComponentDrift(
+  component: string,
+  entry: ComponentLockEntry,
+  cwd: string,
+): Promise<FileDrift[]> {
+  if (!entry.files) {
+    const location = await locateComponent(component, cwd);
+    return [
+      await checkFileDrift(
+        toTarget(location.path, cwd),
+        location.path,
+        entry.checksum,
+      ),
+    ];
+  }
+
+  return Promise.all(
+    Object.entries(entry.files).map(([target, checksum]) =>
+      checkFileDrift(
+        target,
+        path.join(cwd, target),
+        checksum,
+        entry.semanticChecksums?.[target],
+      ),
+    ),
+  );
+}
+
+/**
+ * Compute the lock entry `files` map for located component files
+ * Files that don't exist are left out
+ *
+ * @param locations - Located component files
+ * @returns Checksums keyed by project-relative path
+ */
+export async function computeFileChecksums(
+  locations: ComponentFileLocation[],
+): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+
+  for (const location of locations) {
+    if (location.exists) {
+      files[location.target] = await computeChecksum(location.path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Compute the lock entry `semanticChecksums` map for located component files
+ * Files that don't exist are left out
+ *
+ * @param locations - Located component files
+ * @returns Formatting-insensitive checksums keyed by project-relative path
+ */
+export async function computeSemanticFileChecksums(
+  locations: ComponentFileLocation[],
+): Promise<Record<string, string>> {
+  const semanticChecksums: Record<string, string> = {};
+
+  for (const location of locations) {
+    if (location.exists) {
+      semanticChecksums[location.target] = await computeSemanticFileChecksum(
+        location.path,
+      );
+    }
+  }
+
+  return semanticChecksums;
+}
+
+/**
+ * Check a single file against its recorded checksums
+ */
+async function checkFileDrift(
+  target: string,
+  filePath: string,
+  expectedChecksum: string,
+  expectedSemanticChecksum?: string,
+): Promise<FileDrift> {
+  if (!(await fileExists(filePath))) {
+    return { target, path: filePath, state: "missing" };
+  }
+
+  if (compareChecksums(expectedChecksum, await computeChecksum(filePath))) {
+    return { target, path: filePath, state: "unchanged" };
+  }
+
+  const isReformatted =
+    expectedSemanticChecksum !== undefined &&
+    compareChecksums(
+      expectedSemanticChecksum,
+      await computeSemanticFileChecksum(filePath),
+    );
+
+  return {
+    target,
+    path: filePath,
+    state: isReformatted ? "reformatted" : "modified",
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Process exit codes used by voidui commands
+ * Anything other than 0 and 1 is part of the CLI's public contract for scripts
+ *
+ * `verify` codes are bit flags: when several classes of problems are found
+ * the exit code is their sum (e.g. 12 = modified + missing)
+ */
+
+export const EXIT_CODES = {
+  /**
+   * Command completed successfully
+   */
+  SUCCESS: 0,
+
+  /**
+   * Generic failure
+   */
+  ERROR: 1,
+
+  /**
+   * `update` refused to cross breaking changes without confirmation
+   * (non-interactive run without --allow-breaking)
+   */
+  BREAKING_CHANGES: 2,
+
+  /**
+   * `verify`: a tracked component differs from its recorded checksum
+   */
+  VERIFY_MODIFIED: 4,
+
+  /**
+   * `verify`: a tracked component file is missing
+   */
+  VERIFY_MISSING: 8,
+
+  /**
+   * `verify`: a component file exists but is not in the lock file
+   */
+  VERIFY_UNTRACKED: 16,
+
+  /**
+   * `verify`: a tracked component contains merge conflict markers
+   */
+  VERIFY_CONFLICTS: 32,
+} as const;
@@ -37,6 +37,10 @@ export async function ensureDir(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
 }
 
+export async function removeFile(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+}
+
 export async function readDir(dirPath: string): Promise<string[]> {
   try {
     return await fs.readdir(dirPath);
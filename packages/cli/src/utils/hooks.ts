@@ -0,0 +1,68 @@
+/**
+ * Runs the shell commands configured in voidui.config.json `hooks`
+ */
+
+import { spawn } from "child_process";
+import chalk from "chalk";
+import { readConfig } from "./config.js";
+import type { ConfigHooks } from "../types/config.js";
+
+export interface HookContext {
+  /**
+   * Components the command acted on
+   */
+  components: string[];
+
+  /**
+   * Project-relative files the command wrote or deleted
+   */
+  files: string[];
+}
+
+/**
+ * Run a configured hook, if any
+ * The command runs in a shell from the project root, with the components
+ * and files exposed as space-separated VOIDUI_COMPONENTS and VOIDUI_FILES.
+ * A failing hook is reported but never fails the command.
+ *
+ * @param hook - Hook name (e.g., "postAdd")
+ * @param cwd - Current working directory
+ * @param context - Components and files to pass to the hook
+ */
+export async function runHook(
+  hook: keyof ConfigHooks,
+  cwd: string,
+  context: HookContext,
+): Promise<void> {
+  const command = (await readConfig(cwd)).hooks?.[hook];
+
+  if (!command || context.components.length === 0) {
+    return;
+  }
+
+  console.log(chalk.gray(`\nRunning ${hook} hook: ${command}`));
+
+  const code = await new Promise<number | null>((resolve) => {
+    const child = spawn(command, {
+      cwd,
+      stdio: "inherit",
+      shell: true,
+      env: {
+        ...process.env,
+        VOIDUI_COMPONENTS: context.components.join(" "),
+        VOIDUI_FILES: context.files.join(" "),
+      },
+    });
+
+    child.on("error", () => resolve(null));
+    child.on("close", resolve);
+  });
+
+  if (code !== 0) {
+    console.warn(
+      chalk.yellow(
+        `⚠️  ${hook} hook ${code === null ? "could not be started" : `exited with code ${code}`}`,
+      ),
+    );
+  }
+}
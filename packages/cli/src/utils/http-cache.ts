@@ -0,0 +1,294 @@
+/**
+ * On-disk cache of registry responses
+ * Stored in `.voidui/cache/http/<sha256 of url and credentials>.json`; stale
+ * entries are revalidated with If-None-Match / If-Modified-Since
+ */
+
+import path from "path";
+import { readFile, writeFile } from "fs/promises";
+import { computeContentChecksum } from "./checksum.js";
+import { ensureDir, fileExists } from "./file-operations.js";
+import { readCachedConfig } from "./config.js";
+import type { HttpResponse } from "./http.js";
+
+const CACHE_DIR = path.join(".voidui", "cache", "http");
+
+/**
+ * Seconds a cached response is used without revalidating
+ */
+export const DEFAULT_CACHE_TTL = 300;
+
+/**
+ * Seconds a cached 404 is used without revalidating, so newly published
+ * components and versions show up quickly
+ */
+export const MISSING_CACHE_TTL = 30;
+
+export interface CachedResponse {
+  /**
+   * Whether the status is 2xx
+   */
+  ok: boolean;
+
+  /**
+   * HTTP status
+   */
+  status: number;
+
+  /**
+   * HTTP status text
+   */
+  statusText: string;
+
+  /**
+   * Response body
+   */
+  body: string;
+}
+
+interface HttpCacheEntry {
+  /**
+   * Requested URL
+   */
+  url: string;
+
+  /**
+   * ETag header of the response
+   */
+  etag?: string;
+
+  /**
+   * Last-Modified header of the response
+   */
+  lastModified?: string;
+
+  /**
+   * HTTP status; 404s are cached briefly so missing versions resolve
+   * offline (200 if absent)
+   */
+  status?: number;
+
+  /**
+   * ISO 8601 timestamp of when the response was last fetched or revalidated
+   */
+  fetchedAt: string;
+
+  /**
+   * Response body
+   */
+  body: string;
+}
+
+/**
+ * Fetches a URL with the given extra headers
+ */
+type Fetcher = (
+  url: string,
+  headers: Record<string, string>,
+) => Promise<HttpResponse>;
+
+let offlineMode = false;
+
+let recheckMissing = false;
+
+/**
+ * Responses already fetched in this run, keyed like the cache, so batch
+ * commands request each URL once
+ */
+const pendingResponses = new Map<string, Promise<CachedResponse>>();
+
+/**
+ * Serve registry responses only from the cache
+ *
+ * @param offline - Whether network access is disabled
+ */
+export function setOfflineMode(offline: boolean): void {
+  offlineMode = offline;
+}
+
+/**
+ * Revalidate cached 404s on every request instead of after
+ * MISSING_CACHE_TTL (offline mode still serves them)
+ *
+ * @param recheck - Whether cached 404s are revalidated
+ */
+export function setRecheckMissing(recheck: boolean): void {
+  recheckMissing = recheck;
+}
+
+/**
+ * Fetch a URL through the cache
+ * Fresh entries are served as is, stale ones are revalidated; successful
+ * responses and 404s are stored, 404s with a shorter TTL
+ *
+ * @param url - URL to fetch
+ * @param headers - Extra request headers (only a hash is stored, so
+ *   responses for different credentials are cached separately)
+ * @param fetcher - Performs the request
+ * @returns Response, from the cache or the network
+ * @throws In offline mode, if the URL is not cached
+ */
+export function fetchWithCache(
+  url: string,
+  headers: Record<string, string>,
+  fetcher: Fetcher,
+): Promise<CachedResponse> {
+  const key = getCacheKey(url, headers);
+  let response = pendingResponses.get(key);
+
+  if (!response) {
+    response = loadResponse(url, key, headers, fetcher);
+    pendingResponses.set(key, response);
+    // Failed requests may be retried later in the run
+    response.catch(() => pendingResponses.delete(key));
+  }
+
+  return response;
+}
+
+/**
+ * Serve a response from the cache or the network
+ */
+async function loadResponse(
+  url: string,
+  key: string,
+  headers: Record<string, string>,
+  fetcher: Fetcher,
+): Promise<CachedResponse> {
+  const cwd = process.cwd();
+  const entry = await readCacheEntry(cwd, url, key);
+
+  if (offlineMode) {
+    if (!entry) {
+      throw new Error(
+        `${url} is not cached.\n   Run the command once without --offline to cache it.`,
+      );
+    }
+    return toCachedResponse(entry);
+  }
+
+  const ttl = (await readCachedConfig(cwd)).cacheTtl ?? DEFAULT_CACHE_TTL;
+  let entryTtl = ttl;
+
+  if (entry?.status === 404) {
+    entryTtl = recheckMissing ? 0 : Math.min(ttl, MISSING_CACHE_TTL);
+  }
+
+  if (entry && Date.now() - Date.parse(entry.fetchedAt) < entryTtl * 1000) {
+    return toCachedResponse(entry);
+  }
+
+  const response = await fetcher(url, {
+    ...headers,
+    ...(entry?.etag ? { "If-None-Match": entry.etag } : {}),
+    ...(entry?.lastModified ? { "If-Modified-Since": entry.lastModified } : {}),
+  });
+
+  if (response.status === 304 && entry) {
+    const revalidated = { ...entry, fetchedAt: new Date().toISOString() };
+    await writeCacheEntry(cwd, key, revalidated);
+    return toCachedResponse(revalidated);
+  }
+
+  const { body } = response;
+
+  if (response.ok || response.status === 404) {
+    await writeCacheEntry(cwd, key, {
+      url,
+      etag: response.headers.get("etag") ?? undefined,
+      lastModified: response.headers.get("last-modified") ?? undefined,
+      status: response.ok ? undefined : response.status,
+      fetchedAt: new Date().toISOString(),
+      body,
+    });
+  }
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+    body,
+  };
+}
+
+/**
+ * Read the cache entry for a URL
+ * Unreadable entries are treated as missing
+ */
+async function readCacheEntry(
+  cwd: string,
+  url: string,
+  key: string,
+): Promise<HttpCacheEntry | null> {
+  const cachePath = getCachePath(cwd, key);
+
+  if (!(await fileExists(cachePath))) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(
+      await readFile(cachePath, "utf-8"),
+    ) as HttpCacheEntry;
+    return entry.url === url ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the cache entry for a URL
+ */
+async function writeCacheEntry(
+  cwd: string,
+  key: string,
+  entry: HttpCacheEntry,
+): Promise<void> {
+  const cachePath = getCachePath(cwd, key);
+
+  await ensureDir(path.dirname(cachePath));
+  await writeFile(cachePath, JSON.stringify(entry), "utf-8");
+}
+
+/**
+ * Build a response from a cache entry
+ */
+function toCachedResponse(entry: HttpCacheEntry): CachedResponse {
+  const status = entry.status ?? 200;
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? "Not Found" : "OK",
+    body: entry.body,
+  };
+}
+
+/**
+ * Get the cache key for a request
+ * Requests with credentials are keyed by a hash of their headers, so a
+ * response is never served to a request with other credentials
+ */
+function getCacheKey(url: string, headers: Record<string, string>): string {
+  const entries = Object.entries(headers).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+
+  return entries.length > 0
+    ? `${url}#${hashString(JSON.stringify(entries))}`
+    : url;
+}
+
+/**
+ * Get the cache path for a cache key
+ */
+function getCachePath(cwd: string, key: string): string {
+  return path.join(cwd, CACHE_DIR, `${hashString(key)}.json`);
+}
+
+/**
+ * SHA-256 hex digest of a string
+ */
+function hashString(value: string): string {
+  return computeContentChecksum(value).replace(/^sha256:/, "");
+}
@@ -0,0 +1,195 @@
+/**
+ * HTTP client for registry requests
+ * Adds request timeouts, retries with exponential backoff and proxy
+ * support (HTTPS_PROXY, HTTP_PROXY and NO_PROXY)
+ */
+
+import { EnvHttpProxyAgent, fetch, type Headers } from "undici";
+import { readCachedConfig } from "./config.js";
+
+/**
+ * Seconds a request may take before it is aborted
+ */
+export const DEFAULT_TIMEOUT = 30;
+
+/**
+ * Retries after the first attempt for network errors, 429 and 5xx
+ */
+export const DEFAULT_RETRIES = 2;
+
+/**
+ * First backoff delay; doubles with every retry
+ */
+const BASE_DELAY_MS = 500;
+
+/**
+ * Longest wait between attempts, including Retry-After
+ */
+const MAX_DELAY_MS = 30_000;
+
+export interface HttpResponse {
+  /**
+   * Whether the status is 2xx
+   */
+  ok: boolean;
+
+  /**
+   * HTTP status
+   */
+  status: number;
+
+  /**
+   * HTTP status text
+   */
+  statusText: string;
+
+  /**
+   * Response headers
+   */
+  headers: Headers;
+
+  /**
+   * Response body, read before the timeout is cleared
+   */
+  body: string;
+}
+
+/**
+ * Routes requests through the proxy from the environment, if any
+ * Created on first use so the environment is read once per run
+ */
+let dispatcher: EnvHttpProxyAgent | null = null;
+
+/**
+ * Fetch with a timeout, retrying transient failures
+ * Network errors, timeouts, 429 and 5xx responses are retried with
+ * exponential backoff and jitter, honouring Retry-After; other responses
+ * are returned as is
+ *
+ * @param url - URL to fetch
+ * @param headers - Extra request headers
+ * @returns Response of the last attempt
+ * @throws If every attempt failed with a network error or timed out
+ */
+export async function fetchWithRetry(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<HttpResponse> {
+  const { network } = await readCachedConfig(process.cwd());
+  const timeoutMs = (network?.timeout ?? DEFAULT_TIMEOUT) * 1000;
+  const retries = network?.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= retries;
+    let response: HttpResponse;
+
+    try {
+      response = await fetchWithTimeout(url, headers, timeoutMs);
+    } catch (error) {
+      if (isLastAttempt) {
+        throw error;
+      }
+
+      await sleep(getBackoffDelay(attempt));
+      continue;
+    }
+
+    if (isLastAttempt || !isRetryableStatus(response.status)) {
+      return response;
+    }
+
+    await sleep(
+      getRetryAfterDelay(response.headers.get("retry-after")) ??
+        getBackoffDelay(attempt),
+    );
+  }
+}
+
+/**
+ * Fetch once, aborting if the request takes longer than the timeout
+ * The timeout also covers reading the body
+ */
+async function fetchWithTimeout(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<HttpResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  // A pending timer must not keep the CLI running
+  timer.unref();
+
+  dispatcher ??= new EnvHttpProxyAgent();
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": "voidui-cli",
+        ...headers,
+      },
+      signal: controller.signal,
+      dispatcher,
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      body: await response.text(),
+    };
+  } catch (error) {
+    // Aborts while reading the body surface here too
+    if (controller.signal.aborted) {
+      throw new Error(
+        `Request timed out after ${timeoutMs / 1000}s.\n   Tried: ${url}`,
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Whether a response status is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with jitter, between half and all of the delay
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date)
+ *
+ * @returns Delay in milliseconds, or null if absent or invalid
+ */
+function getRetryAfterDelay(retryAfter: string | null): number | null {
+  if (!retryAfter) {
+    return null;
+  }
+
+  const seconds = Number(retryAfter);
+  const delay = Number.isFinite(seconds)
+    ? seconds * 1000
+    : Date.parse(retryAfter) - Date.now();
+
+  return Number.isNaN(delay)
+    ? null
+    : Math.min(Math.max(delay, 0), MAX_DELAY_MS);
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
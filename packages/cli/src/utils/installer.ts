@@ -0,0 +1,124 @@
+/**
+ * Native component installer
+ * Writes registry files into the project and installs their npm
+ * dependencies, without shelling out to the shadcn CLI
+ */
+
+import path from "path";
+import { writeFile } from "fs/promises";
+import chalk from "chalk";
+import { locateComponentFiles } from "./component-locator.js";
+import type { ComponentFileLocation } from "./component-locator.js";
+import { readComponentsConfig } from "./components-config.js";
+import { ensureDir } from "./file-operations.js";
+import {
+  detectPackageManager,
+  getMissingPackages,
+  installPackages,
+} from "./package-manager.js";
+import { transformRegistryItem } from "./transform.js";
+import type { RegistryItem } from "../types/registry.js";
+
+export interface NativeInstallOptions {
+  /**
+   * Overwrite files that already exist
+   * @default true
+   */
+  overwrite?: boolean;
+
+  /**
+   * Whether to hide progress and package manager output
+   * @default false
+   */
+  silent?: boolean;
+
+  /**
+   * Namespace of the component, whose files go to the namespace's
+   * directories
+   * @example "@acme"
+   */
+  namespace?: string;
+}
+
+export interface NativeInstallResult {
+  /**
+   * Files written to the project
+   */
+  written: ComponentFileLocation[];
+
+  /**
+   * Existing files left untouched (only when not overwriting)
+   */
+  skipped: ComponentFileLocation[];
+
+  /**
+   * npm packages that were installed
+   */
+  installedPackages: string[];
+}
+
+/**
+ * Install a registry item into the project
+ * Files go to their `target` or the components.json alias for their type,
+ * with imports rewritten to the project's aliases
+ *
+ * @param registryItem - Registry item (at the version to install)
+ * @param cwd - Current working directory
+ * @param options - Install options
+ * @returns Written and skipped files, and installed packages
+ */
+export async function installRegistryItem(
+  registryItem: RegistryItem,
+  cwd: string,
+  options: NativeInstallOptions = {},
+): Promise<NativeInstallResult> {
+  const { overwrite = true, silent = false, namespace } = options;
+  const item = transformRegistryItem(
+    registryItem,
+    await readComponentsConfig(cwd),
+    namespace,
+  );
+
+  // 1. Write files
+  const written: ComponentFileLocation[] = [];
+  const skipped: ComponentFileLocation[] = [];
+
+  for (const [index, location] of (
+    await locateComponentFiles(item, cwd, namespace)
+  ).entries()) {
+    if (location.exists && !overwrite) {
+      skipped.push(location);
+      continue;
+    }
+
+    await ensureDir(path.dirname(location.path));
+    await writeFile(location.path, item.files[index]?.content ?? "", "utf-8");
+    written.push({ ...location, exists: true });
+
+    if (!silent) {
+      console.log(chalk.gray(`  Wrote ${location.target}`));
+    }
+  }
+
+  // 2. Install npm dependencies that package.json doesn't declare yet
+  const dependencies = await getMissingPackages(item.dependencies ?? [], cwd);
+  const devDependencies = await getMissingPackages(
+    item.devDependencies ?? [],
+    cwd,
+  );
+
+  if (dependencies.length > 0 || devDependencies.length > 0) {
+    const packageManager = await detectPackageManager(cwd);
+    await installPackages(dependencies, packageManager, cwd, { silent });
+    await installPackages(devDependencies, packageManager, cwd, {
+      dev: true,
+      silent,
+    });
+  }
+
+  return {
+    written,
+    skipped,
+    installedPackages: [...dependencies, ...devDependencies],
+  };
+}
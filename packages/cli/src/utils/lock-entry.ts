@@ -0,0 +1,95 @@
+/**
+ * Build lock entries from the installed files of a registry item
+ */
+
+import { locateComponentFiles, toTarget } from "./component-locator.js";
+import { computeChecksum, computeSemanticFileChecksum } from "./checksum.js";
+import { computeFileChecksums, computeSemanticFileChecksums } from "./drift.js";
+import { storeBaseContents } from "./base-cache.js";
+import { findMainFile } from "./registry.js";
+import type { ComponentLockEntry } from "../types/lock-file.js";
+import type { RegistryItem } from "../types/registry.js";
+
+/**
+ * Lock entry fields that don't come from the installed files
+ */
+export type LockEntryFields = Pick<
+  ComponentLockEntry,
+  | "installedVersion"
+  | "range"
+  | "registryUrl"
+  | "namespace"
+  | "registryDependencies"
+>;
+
+/**
+ * Create a lock entry for an installed registry item
+ * Checksums every installed file and caches the upstream content as the
+ * base for future merges
+ *
+ * @param installedItem - Registry item with the project's import aliases applied
+ * @param cwd - Current working directory
+ * @param fields - Version, range and registry of the entry
+ * @param mainPath - Absolute path of the main file (defaults to the
+ *   location of the item's main file)
+ * @returns Lock entry or null if the main file is not installed
+ */
+export async function createLockEntry(
+  installedItem: RegistryItem,
+  cwd: string,
+  fields: LockEntryFields,
+  mainPath?: string,
+): Promise<ComponentLockEntry | null> {
+  const locations = await locateComponentFiles(
+    installedItem,
+    cwd,
+    fields.namespace,
+  );
+  const mainFile = findMainFile(installedItem);
+  const mainLocation = mainPath
+    ? { path: mainPath, exists: true }
+    : locations.find((location) => location.registryPath === mainFile?.path);
+
+  if (!mainLocation?.exists) {
+    return null;
+  }
+
+  // 1. Checksum every installed file, including the main file
+  const mainTarget = toTarget(mainLocation.path, cwd);
+  const checksum = await computeChecksum(mainLocation.path);
+  const files = {
+    [mainTarget]: checksum,
+    ...(await computeFileChecksums(locations)),
+  };
+  const semanticChecksums = {
+    [mainTarget]: await computeSemanticFileChecksum(mainLocation.path),
+    ...(await computeSemanticFileChecksums(locations)),
+  };
+
+  // 2. Cache the upstream content as the base for future merges
+  const baseChecksums = await storeBaseContents(
+    cwd,
+    locations
+      .map((location, index) => ({
+        target: location.target,
+        content: installedItem.files[index]?.content,
+      }))
+      .filter(
+        (file): file is { target: string; content: string } =>
+          file.target in files && file.content !== undefined,
+      ),
+  );
+
+  return {
+    installedVersion: fields.installedVersion,
+    range: fields.range,
+    installedAt: new Date().toISOString(),
+    checksum,
+    files,
+    semanticChecksums,
+    baseChecksums,
+    registryDependencies: fields.registryDependencies,
+    registryUrl: fields.registryUrl,
+    namespace: fields.namespace,
+  };
+}
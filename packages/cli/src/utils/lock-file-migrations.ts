@@ -0,0 +1,94 @@
+/**
+ * Lock file format migrations
+ * Upgrades voidui.lock.json written by older CLI versions step by step
+ */
+
+/**
+ * Raw lock file as read from disk, before validation
+ */
+type RawLockFile = Record<string, unknown>;
+
+interface LockFileMigration {
+  /**
+   * Format version this migration upgrades from
+   */
+  from: string;
+
+  /**
+   * Format version this migration produces
+   */
+  to: string;
+
+  /**
+   * Transform the raw lock file (must not mutate the input)
+   */
+  migrate: (lockFile: RawLockFile) => RawLockFile;
+}
+
+/**
+ * Registered migrations, oldest first
+ * Add a new entry whenever LOCK_FILE_VERSION changes
+ */
+const LOCK_FILE_MIGRATIONS: LockFileMigration[] = [
+  {
+    // 1.1 is the first format the CLI checks; files labelled 1.0 may already
+    // hold `range` and `files`, so there is nothing to transform
+    from: "1.0",
+    to: "1.1",
+    migrate: (lockFile) => ({ ...lockFile, version: "1.1" }),
+  },
+  {
+    // 1.2 adds the optional `baseChecksums`, `semanticChecksums`,
+    // `registryDependencies`, `registryMigrations` and `namespace` fields
+    from: "1.1",
+    to: "1.2",
+    migrate: (lockFile) => ({ ...lockFile, version: "1.2" }),
+  },
+];
+
+/**
+ * Upgrade a raw lock file to the target format version
+ *
+ * @param lockFile - Raw lock file with a `version` older than the target
+ * @param targetVersion - Format version to migrate to
+ * @returns Migrated lock file and the versions it passed through
+ * @throws If no migration path exists from the lock file's version
+ */
+export function migrateLockFile(
+  lockFile: RawLockFile,
+  targetVersion: string,
+): { lockFile: RawLockFile; steps: string[] } {
+  let current = lockFile;
+  const steps: string[] = [];
+
+  while (current.version !== targetVersion) {
+    const migration = LOCK_FILE_MIGRATIONS.find(
+      (candidate) => candidate.from === current.version,
+    );
+
+    if (!migration) {
+      throw new Error(
+        `No migration from lock file format ${String(current.version)} to ${targetVersion}`,
+      );
+    }
+
+    current = migration.migrate(current);
+    steps.push(`${migration.from} → ${migration.to}`);
+  }
+
+  return { lockFile: current, steps };
+}
+
+/**
+ * Compare two lock file format versions ("major.minor")
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareLockFileVersions(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split(".").map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split(".").map(Number);
+
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+}
@@ -4,18 +4,32 @@
  */
 
 import path from "path";
+import chalk from "chalk";
 import { lockFileSchema } from "../validators/lock-file.js";
 import type { LockFile, ComponentLockEntry } from "../types/lock-file.js";
-import { fileExists, readJsonFile, writeJsonFile } from "./file-operations.js";
+import { locateComponent, toTarget } from "./component-locator.js";
+import {
+  copyFile,
+  fileExists,
+  readJsonFile,
+  writeJsonFile,
+} from "./file-operations.js";
+import {
+  compareLockFileVersions,
+  migrateLockFile,
+} from "./lock-file-migrations.js";
 
 const LOCK_FILE_NAME = "voidui.lock.json";
-const LOCK_FILE_VERSION = "1.0";
+const LOCK_FILE_VERSION = "1.2";
 
 /**
  * Read existing lock file or return null if not found
+ * Lock files written in an older format are migrated in memory; only
+ * writeLockFile rewrites them, so read-only commands never touch the file
  *
  * @param cwd - Current working directory
  * @returns Lock file or null
+ * @throws If the lock file is invalid or newer than this CLI supports
  */
 export async function readLockFile(cwd: string): Promise<LockFile | null> {
   const lockFilePath = path.join(cwd, LOCK_FILE_NAME);
@@ -26,18 +40,63 @@ export async function readLockFile(cwd: string): Promise<LockFile | null> {
 
   const rawLockFile = await readJsonFile<unknown>(lockFilePath);
 
-  if (!rawLockFile) {
-    return null;
+  if (
+    !rawLockFile ||
+    typeof rawLockFile !== "object" ||
+    Array.isArray(rawLockFile)
+  ) {
+    throw new Error(`${LOCK_FILE_NAME} is not a valid JSON object.`);
+  }
+
+  const version = (rawLockFile as Record<string, unknown>).version;
+
+  if (typeof version !== "string") {
+    throw new Error(`${LOCK_FILE_NAME} is missing its format "version".`);
+  }
+
+  // 1. Refuse formats written by a newer CLI instead of guessing
+  if (compareLockFileVersions(version, LOCK_FILE_VERSION) > 0) {
+    throw new Error(
+      `${LOCK_FILE_NAME} uses format ${version}, but this CLI only supports up to ${LOCK_FILE_VERSION}.\n` +
+        "   Upgrade the CLI to continue: npm install -g voidui@latest",
+    );
+  }
+
+  if (version === LOCK_FILE_VERSION) {
+    return parseLockFile(rawLockFile);
   }
 
-  try {
-    const lockFile = lockFileSchema.parse(rawLockFile);
-    return lockFile;
-  } catch (error) {
+  // 2. Migrate older formats in memory
+  const { lockFile } = migrateLockFile(
+    rawLockFile as Record<string, unknown>,
+    LOCK_FILE_VERSION,
+  );
+
+  return parseLockFile(lockFile);
+}
+
+/**
+ * Validate a lock file in the current format
+ *
+ * @param rawLockFile - Parsed JSON
+ * @returns Validated lock file
+ * @throws With one line per invalid field
+ */
+function parseLockFile(rawLockFile: unknown): LockFile {
+  const result = lockFileSchema.safeParse(rawLockFile);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `   - ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    );
+
     throw new Error(
-      `Lock file is corrupted. Please delete ${LOCK_FILE_NAME} and re-install components.`,
+      `${LOCK_FILE_NAME} is invalid:\n${issues.join("\n")}\n` +
+        "   Fix the fields above or restore the file from version control.",
     );
   }
+
+  return result.data;
 }
 
 /**
@@ -62,6 +121,8 @@ export async function readOrCreateLockFile(cwd: string): Promise<LockFile> {
 
 /**
  * Write lock file to disk
+ * Replacing a file in an older format keeps the original as
+ * `voidui.lock.json.<version>.bak`
  *
  * @param cwd - Current working directory
  * @param lockFile - Lock file to write
@@ -71,6 +132,23 @@ export async function writeLockFile(
   lockFile: LockFile,
 ): Promise<void> {
   const lockFilePath = path.join(cwd, LOCK_FILE_NAME);
+  const previousVersion = await readFormatVersion(lockFilePath);
+
+  if (
+    previousVersion &&
+    compareLockFileVersions(previousVersion, LOCK_FILE_VERSION) < 0
+  ) {
+    const backupPath = `${lockFilePath}.${previousVersion}.bak`;
+    await copyFile(lockFilePath, backupPath);
+
+    // stderr keeps --json output on stdout parseable
+    console.warn(
+      chalk.gray(
+        `Migrated ${LOCK_FILE_NAME} (${previousVersion} → ${LOCK_FILE_VERSION}). Backup: ${path.basename(backupPath)}`,
+      ),
+    );
+  }
+
   await writeJsonFile(lockFilePath, lockFile);
 }
 
@@ -96,6 +174,37 @@ export function updateComponentEntry(
   };
 }
 
+/**
+ * Carry the registry history of a replaced lock entry over to its
+ * replacement, recording a migration if the registry changed
+ *
+ * @param entry - New lock entry (with the registry it was installed from)
+ * @param previousEntry - Entry it replaces (if any)
+ * @returns New entry with `registryMigrations` filled in
+ */
+export function recordRegistryMigration(
+  entry: ComponentLockEntry,
+  previousEntry: ComponentLockEntry | null | undefined,
+): ComponentLockEntry {
+  const migrations = previousEntry?.registryMigrations ?? [];
+  const from = previousEntry?.registryUrl;
+  const to = entry.registryUrl;
+
+  if (!from || !to || from === to) {
+    return migrations.length > 0
+      ? { ...entry, registryMigrations: migrations }
+      : entry;
+  }
+
+  return {
+    ...entry,
+    registryMigrations: [
+      ...migrations,
+      { from, to, migratedAt: new Date().toISOString() },
+    ],
+  };
+}
+
 /**
  * Remove a component entry from the lock file
  *
@@ -107,7 +216,8 @@ export function removeComponentEntry(
   lockFile: LockFile,
   componentName: string,
 ): LockFile {
-  const { [componentName]: _, ...remainingComponents } = lockFile.components;
+  const remainingComponents = { ...lockFile.components };
+  delete remainingComponents[componentName];
 
   return {
     ...lockFile,
@@ -129,6 +239,41 @@ export function isComponentTracked(
   return componentName in lockFile.components;
 }
 
+/**
+ * Find another component whose lock entry tracks a file
+ * Namespaced components install into their own directories, but files
+ * with an explicit `target` may still land on another component's file
+ *
+ * @param lockFile - Lock file
+ * @param target - Project-relative path of the file
+ * @param componentName - Component installing the file (ignored)
+ * @param cwd - Current working directory
+ * @returns Name of the component tracking the file, or null
+ */
+export async function findFileOwner(
+  lockFile: LockFile,
+  target: string,
+  componentName: string,
+  cwd: string,
+): Promise<string | null> {
+  for (const [name, entry] of Object.entries(lockFile.components)) {
+    if (name === componentName) {
+      continue;
+    }
+
+    // Entries from before per-file tracking only cover the main file
+    const targets = entry.files
+      ? Object.keys(entry.files)
+      : [toTarget((await locateComponent(name, cwd)).path, cwd)];
+
+    if (targets.includes(target)) {
+      return name;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Get component entry from lock file
  *
@@ -142,3 +287,12 @@ export function getComponentEntry(
 ): ComponentLockEntry | null {
   return lockFile.components[componentName] || null;
 }
+
+/**
+ * Read the format version of the lock file on disk, if any
+ */
+async function readFormatVersion(lockFilePath: string): Promise<string | null> {
+  const rawLockFile = await readJsonFile<{ version?: unknown }>(lockFilePath);
+
+  return typeof rawLockFile?.version === "string" ? rawLockFile.version : null;
+}
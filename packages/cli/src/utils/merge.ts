@@ -107,11 +107,13 @@ export function countConflicts(content: string): number {
  *
  * @param result - Merge result
  * @param componentPath - Path to component file
+ * @param componentName - Component the file belongs to (defaults to the file name)
  * @returns Formatted message
  */
 export function formatMergeMessage(
   result: MergeResult,
   componentPath: string,
+  componentName?: string,
 ): string {
   if (result.success) {
     return `✓ Successfully merged your changes with the latest version`;
@@ -126,5 +128,5 @@ To resolve:
 2. Edit each conflict region to keep the code you want
 3. Remove the conflict markers (<<<<<<<, =======, >>>>>>>)
 4. Save the file
-5. Run: voidui add ${componentPath.split("/").pop()?.replace(".tsx", "")} --force`;
+5. Run: voidui add ${componentName ?? componentPath.split("/").pop()?.replace(".tsx", "")} --scan --force`;
 }
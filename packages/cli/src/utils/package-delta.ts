@@ -0,0 +1,126 @@
+/**
+ * Utilities for comparing the npm dependencies of two component versions
+ */
+
+import { getPackageName } from "./package-manager.js";
+import type { RegistryItem } from "../types/registry.js";
+
+type ItemDependencies = Pick<RegistryItem, "dependencies" | "devDependencies">;
+
+export interface PackageChange {
+  /**
+   * Package name
+   * @example "@radix-ui/react-separator"
+   */
+  name: string;
+
+  /**
+   * Specifier at the installed version (absent for added packages)
+   * @example "zod@^3.0.0"
+   */
+  from?: string;
+
+  /**
+   * Specifier at the target version (absent for removed packages)
+   * @example "zod@^4.0.0"
+   */
+  to?: string;
+
+  /**
+   * Whether the package is a devDependency
+   */
+  dev: boolean;
+}
+
+export interface PackageDelta {
+  /**
+   * Packages the target version needs that the installed version didn't
+   */
+  added: PackageChange[];
+
+  /**
+   * Packages the target version no longer needs
+   */
+  removed: PackageChange[];
+
+  /**
+   * Packages whose specifier changed (e.g., a new version range)
+   */
+  changed: PackageChange[];
+}
+
+/**
+ * Compare the npm dependencies of two versions of a registry item
+ * Packages are matched by name, so a new version range counts as a change
+ *
+ * @param fromItem - Registry item at the installed version
+ * @param toItem - Registry item at the target version
+ * @returns Added, removed and changed packages
+ */
+export function diffPackageDependencies(
+  fromItem: ItemDependencies,
+  toItem: ItemDependencies,
+): PackageDelta {
+  const delta: PackageDelta = { added: [], removed: [], changed: [] };
+
+  for (const dev of [false, true]) {
+    const from = groupByName(
+      (dev ? fromItem.devDependencies : fromItem.dependencies) ?? [],
+    );
+    const to = groupByName(
+      (dev ? toItem.devDependencies : toItem.dependencies) ?? [],
+    );
+
+    for (const [name, specifier] of to) {
+      const previous = from.get(name);
+
+      if (previous === undefined) {
+        delta.added.push({ name, to: specifier, dev });
+      } else if (previous !== specifier) {
+        delta.changed.push({ name, from: previous, to: specifier, dev });
+      }
+    }
+
+    for (const [name, specifier] of from) {
+      if (!to.has(name)) {
+        delta.removed.push({ name, from: specifier, dev });
+      }
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Check whether a registry item records its npm dependencies
+ * Partial version artifacts leave them out because they are unknown
+ *
+ * @param item - Registry item
+ * @returns True if the item's dependencies can be compared
+ */
+export function hasKnownPackages(item: Pick<RegistryItem, "meta">): boolean {
+  return item.meta?.partial !== true;
+}
+
+/**
+ * Check whether a dependency delta has any changes
+ *
+ * @param delta - Dependency delta
+ * @returns True if packages were added, removed or changed
+ */
+export function hasPackageChanges(delta: PackageDelta): boolean {
+  return (
+    delta.added.length > 0 ||
+    delta.removed.length > 0 ||
+    delta.changed.length > 0
+  );
+}
+
+/**
+ * Index package specifiers by package name
+ */
+function groupByName(specifiers: string[]): Map<string, string> {
+  return new Map(
+    specifiers.map((specifier) => [getPackageName(specifier), specifier]),
+  );
+}
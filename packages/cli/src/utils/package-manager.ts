@@ -0,0 +1,264 @@
+/**
+ * Package manager detection and dependency installation
+ */
+
+import path from "path";
+import { spawn } from "child_process";
+import chalk from "chalk";
+import { fileExists, readJsonFile } from "./file-operations.js";
+import { isValidRange } from "./semver.js";
+
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+export interface InstallPackagesOptions {
+  /**
+   * Install as devDependencies
+   */
+  dev?: boolean;
+
+  /**
+   * Whether to hide the package manager's output
+   * @default false
+   */
+  silent?: boolean;
+}
+
+/**
+ * Lock files that identify a package manager, in lookup order
+ */
+/**
+ * npm package name, optionally scoped
+ */
+const PACKAGE_NAME_PATTERN =
+  /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * npm dist-tag (e.g., "latest", "next")
+ */
+const DIST_TAG_PATTERN = /^[a-z][a-z0-9-._]*$/i;
+
+/**
+ * Most of a silent install's error output kept for the error message
+ */
+const MAX_ERROR_OUTPUT = 2000;
+
+const LOCK_FILES: Array<[string, PackageManager]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["bun.lockb", "bun"],
+  ["bun.lock", "bun"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+];
+
+/**
+ * Detect the project's package manager
+ * Uses the `packageManager` field of package.json, then lock files
+ *
+ * @param cwd - Current working directory
+ * @returns Detected package manager (defaults to npm)
+ */
+export async function detectPackageManager(
+  cwd: string,
+): Promise<PackageManager> {
+  const packageJson = await readPackageJson(cwd);
+  const declared = packageJson?.packageManager?.split("@")[0];
+
+  if (
+    declared === "npm" ||
+    declared === "pnpm" ||
+    declared === "yarn" ||
+    declared === "bun"
+  ) {
+    return declared;
+  }
+
+  for (const [lockFile, packageManager] of LOCK_FILES) {
+    if (await fileExists(path.join(cwd, lockFile))) {
+      return packageManager;
+    }
+  }
+
+  return "npm";
+}
+
+/**
+ * Filter out packages already declared in package.json
+ *
+ * @param packages - Package specifiers (e.g., "lucide-react", "zod@^3")
+ * @param cwd - Current working directory
+ * @returns Packages that still need to be installed
+ */
+export async function getMissingPackages(
+  packages: string[],
+  cwd: string,
+): Promise<string[]> {
+  const packageJson = await readPackageJson(cwd);
+  const declared = new Set([
+    ...Object.keys(packageJson?.dependencies ?? {}),
+    ...Object.keys(packageJson?.devDependencies ?? {}),
+  ]);
+
+  return packages.filter(
+    (specifier) => !declared.has(getPackageName(specifier)),
+  );
+}
+
+/**
+ * Install packages with the given package manager
+ *
+ * @param packages - Package specifiers
+ * @param packageManager - Package manager to use
+ * @param cwd - Current working directory
+ * @param options - Install options
+ * @returns Promise that resolves when installation completes
+ * @throws If a specifier is not a package name with an optional range or tag
+ */
+export async function installPackages(
+  packages: string[],
+  packageManager: PackageManager,
+  cwd: string,
+  options: InstallPackagesOptions = {},
+): Promise<void> {
+  if (packages.length === 0) {
+    return;
+  }
+
+  // Specifiers come from the registry and end up on a command line
+  for (const specifier of packages) {
+    if (!isValidPackageSpecifier(specifier)) {
+      throw new Error(
+        `Refusing to install "${specifier}": not a valid npm package specifier`,
+      );
+    }
+  }
+
+  const { dev = false, silent = false } = options;
+  const args = getInstallArgs(packages, packageManager, dev);
+  const isWindows = process.platform === "win32";
+
+  if (!silent) {
+    console.log(chalk.gray(`$ ${packageManager} ${args.join(" ")}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    // Package managers are .cmd shims on Windows, which Node only runs
+    // through a shell; arguments are quoted so ranges like ">=1 <2" stay
+    // literal
+    const child = spawn(
+      packageManager,
+      isWindows ? args.map((arg) => `"${arg}"`) : args,
+      {
+        cwd,
+        stdio: silent ? ["ignore", "ignore", "pipe"] : "inherit",
+        shell: isWindows,
+      },
+    );
+
+    // Keep the end of the error output; reading it also stops a noisy
+    // install from blocking on a full pipe
+    let errorOutput = "";
+    child.stderr?.on("data", (chunk: Buffer) => {
+      errorOutput = (errorOutput + chunk.toString()).slice(-MAX_ERROR_OUTPUT);
+    });
+
+    child.on("error", (error) => {
+      reject(
+        new Error(
+          `Failed to run ${packageManager}: ${error.message}\nMake sure it is available in your PATH.`,
+        ),
+      );
+    });
+
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(
+          new Error(
+            `${packageManager} exited with code ${code} while installing ${packages.join(", ")}` +
+              (errorOutput ? `\n${errorOutput.trim()}` : ""),
+          ),
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Format the command that installs packages, for users to run themselves
+ *
+ * @param packages - Package specifiers
+ * @param packageManager - Package manager to use
+ * @param options - Install options
+ * @returns Command line (e.g., "pnpm add -D typescript")
+ */
+export function formatInstallCommand(
+  packages: string[],
+  packageManager: PackageManager,
+  options: Pick<InstallPackagesOptions, "dev"> = {},
+): string {
+  return [
+    packageManager,
+    ...getInstallArgs(packages, packageManager, options.dev ?? false),
+  ].join(" ");
+}
+
+/**
+ * Get the package name from a specifier, keeping the scope
+ *
+ * @param specifier - e.g. "@radix-ui/react-slot@^1.0.0"
+ * @returns Package name (e.g., "@radix-ui/react-slot")
+ */
+export function getPackageName(specifier: string): string {
+  const versionIndex = specifier.indexOf("@", 1);
+  return versionIndex === -1 ? specifier : specifier.slice(0, versionIndex);
+}
+
+/**
+ * Check that a specifier is a package name with an optional semver range
+ * or dist-tag
+ *
+ * @param specifier - e.g. "@radix-ui/react-slot@^1.0.0"
+ * @returns True if the specifier is safe to pass to a package manager
+ */
+export function isValidPackageSpecifier(specifier: string): boolean {
+  const name = getPackageName(specifier);
+  const range = specifier.slice(name.length + 1);
+
+  if (!PACKAGE_NAME_PATTERN.test(name)) {
+    return false;
+  }
+
+  // Only characters ranges use, so quotes, `$`, `%`, `&` and `;` never pass
+  return (
+    specifier === name ||
+    (/^[\w.\-^~<>=*|\s]+$/.test(range) &&
+      (isValidRange(range) || DIST_TAG_PATTERN.test(range)))
+  );
+}
+
+/**
+ * Build the package manager arguments that install packages
+ */
+function getInstallArgs(
+  packages: string[],
+  packageManager: PackageManager,
+  dev: boolean,
+): string[] {
+  return [
+    packageManager === "npm" ? "install" : "add",
+    ...(dev ? [packageManager === "npm" ? "--save-dev" : "-D"] : []),
+    ...packages,
+  ];
+}
+
+/**
+ * Read package.json from the project root
+ */
+async function readPackageJson(cwd: string): Promise<{
+  packageManager?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+} | null> {
+  return readJsonFile(path.join(cwd, "package.json"));
+}
@@ -0,0 +1,126 @@
+/**
+ * Registry authentication
+ * Resolves the credentials configured in voidui.config.json for a request
+ */
+
+import { CONFIG_FILE_NAME, readCachedConfig } from "./config.js";
+import type { RegistryAuth } from "../types/config.js";
+
+export interface RegistryCredentials {
+  /**
+   * Configured registry URL the request matched
+   */
+  registryUrl: string;
+
+  /**
+   * Headers to send with the request
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Where the credentials come from, for error messages
+   * @example "$ACME_REGISTRY_TOKEN"
+   */
+  source: string;
+}
+
+/**
+ * Get the credentials for a registry request
+ * The configured registry URL with the longest matching prefix wins
+ *
+ * @param url - URL being requested
+ * @param cwd - Project root holding voidui.config.json
+ * @returns Credentials, or null if none are configured for the URL
+ * @throws If a referenced environment variable is not set
+ */
+export async function getRegistryCredentials(
+  url: string,
+  cwd: string = process.cwd(),
+): Promise<RegistryCredentials | null> {
+  const authConfig = (await readCachedConfig(cwd)).registryAuth ?? {};
+  const match = Object.entries(authConfig)
+    .map(([registryUrl, auth]) => ({
+      registryUrl: registryUrl.replace(/\/+$/, ""),
+      auth,
+    }))
+    .filter(
+      ({ registryUrl }) =>
+        url === registryUrl || url.startsWith(`${registryUrl}/`),
+    )
+    .sort((a, b) => b.registryUrl.length - a.registryUrl.length)[0];
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    registryUrl: match.registryUrl,
+    headers: resolveAuthHeaders(match.auth, match.registryUrl),
+    source: describeAuth(match.auth),
+  };
+}
+
+/**
+ * Build the request headers for a registry's credentials
+ */
+function resolveAuthHeaders(
+  auth: RegistryAuth,
+  registryUrl: string,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(auth.headers ?? {})) {
+    headers[name] = expandEnvVars(value, registryUrl);
+  }
+
+  if (auth.tokenEnv) {
+    headers["Authorization"] =
+      `Bearer ${readEnvVar(auth.tokenEnv, registryUrl)}`;
+  } else if (auth.basic) {
+    const username = expandEnvVars(auth.basic.username, registryUrl);
+    const password = readEnvVar(auth.basic.passwordEnv, registryUrl);
+
+    headers["Authorization"] =
+      `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Describe where credentials come from without revealing them
+ */
+function describeAuth(auth: RegistryAuth): string {
+  const sources = [
+    ...(auth.tokenEnv ? [`$${auth.tokenEnv}`] : []),
+    ...(auth.basic ? [`basic auth ($${auth.basic.passwordEnv})`] : []),
+    ...Object.keys(auth.headers ?? {}).map((name) => `${name} header`),
+  ];
+
+  return sources.join(", ") || "no credentials";
+}
+
+/**
+ * Replace `${VAR}` references with environment variable values
+ */
+function expandEnvVars(value: string, registryUrl: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) =>
+    readEnvVar(name, registryUrl),
+  );
+}
+
+/**
+ * Read an environment variable used for registry credentials
+ */
+function readEnvVar(name: string, registryUrl: string): string {
+  const value = process.env[name];
+
+  if (!value) {
+    throw new Error(
+      `Environment variable ${name} is not set.\n` +
+        `   It holds the credentials for ${registryUrl} (registryAuth in ${CONFIG_FILE_NAME}).`,
+    );
+  }
+
+  return value;
+}
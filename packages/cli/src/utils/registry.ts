@@ -2,16 +2,32 @@
  * Registry API client for fetching component metadata
  */
 
-import path from "path";
-import { readFile } from "fs/promises";
-import { fileExists } from "./file-operations.js";
-import type { RegistryItem } from "../types/registry.js";
+import type { z } from "zod";
+import { parseComponentName } from "./component-spec.js";
+import { readCachedConfig } from "./config.js";
+import { fetchWithCache } from "./http-cache.js";
+import { fetchWithRetry } from "./http.js";
+import {
+  lenientRegistrySchemas,
+  strictRegistrySchemas,
+  type RegistrySchemas,
+} from "../validators/registry.js";
+import {
+  getRegistryCredentials,
+  type RegistryCredentials,
+} from "./registry-auth.js";
+import type {
+  RegistryFile,
+  RegistryIndex,
+  RegistryItem,
+} from "../types/registry.js";
 
 /**
  * Fetch component metadata from the registry
  * Includes retry logic for network failures
  *
- * @param componentName - Name of the component (e.g., "separator")
+ * @param componentName - Name of the component (e.g., "separator");
+ *   a namespace ("@acme/button") only selects the registry
  * @param registryUrl - Base registry URL
  * @returns Registry item or null if not found
  */
@@ -19,173 +35,240 @@ export async function fetchRegistryItem(
   componentName: string,
   registryUrl: string,
 ): Promise<RegistryItem | null> {
-  const url = `${registryUrl}/${componentName}.json`;
+  const { name } = parseComponentName(componentName);
 
-  try {
-    const response = await fetchWithRetry(url, { maxRetries: 1 });
+  return fetchRegistryJson(
+    `${registryUrl}/${name}.json`,
+    (schemas) => schemas.registryItemSchema,
+  );
+}
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+/**
+ * Fetch the registry index (registry.json) listing every component
+ *
+ * @param registryUrl - Base registry URL
+ * @returns Registry index or null if not found
+ */
+export async function fetchRegistryIndex(
+  registryUrl: string,
+): Promise<RegistryIndex | null> {
+  return fetchRegistryJson(
+    `${registryUrl}/registry.json`,
+    (schemas) => schemas.registryIndexSchema,
+  );
+}
 
-    const data = await response.json();
-    return data as RegistryItem;
-  } catch (error) {
-    if (error instanceof Error && error.message.includes("fetch failed")) {
-      throw new Error(
-        `Failed to fetch registry data. Check your internet connection.\n   Tried: ${url}`,
-      );
-    }
-    throw error;
-  }
+/**
+ * Fetch a specific version of a component from the registry
+ * Versions are served from `<registry>/<name>/<version>.json`
+ * (written by `voidui augment` from the component's snapshots)
+ *
+ * @param componentName - Name of the component (e.g., "separator");
+ *   a namespace ("@acme/button") only selects the registry
+ * @param version - Semantic version (e.g., "1.0.0")
+ * @param registryUrl - Base registry URL
+ * @returns Registry item for that version or null if not found
+ */
+export async function fetchRegistryItemVersion(
+  componentName: string,
+  version: string,
+  registryUrl: string,
+): Promise<RegistryItem | null> {
+  const { name } = parseComponentName(componentName);
+
+  return fetchRegistryJson(
+    `${registryUrl}/${name}/${version}.json`,
+    (schemas) => schemas.registryItemSchema,
+  );
 }
 
 /**
- * Fetch specific version of a component from the registry
- * Note: This fetches from the versions endpoint in the registry
+ * Resolve the registry item for a specific version of a component
+ * Tries the versions endpoint first, then the current item
  *
  * @param componentName - Name of the component
  * @param version - Semantic version (e.g., "1.0.0")
  * @param registryUrl - Base registry URL
- * @returns Component source code or null if not found
+ * @returns Registry item for that version or null if not found
  */
-export async function fetchComponentVersion(
+export async function resolveRegistryItemVersion(
   componentName: string,
   version: string,
   registryUrl: string,
-): Promise<string | null> {
+): Promise<RegistryItem | null> {
+  const versionItem = await fetchRegistryItemVersion(
+    componentName,
+    version,
+    registryUrl,
+  );
+
+  if (versionItem) {
+    return versionItem;
+  }
+
+  // Registries built before version artifacts existed only serve the current version
   const item = await fetchRegistryItem(componentName, registryUrl);
 
   if (!item) {
     return null;
   }
 
-  // If requesting current version, return from files
-  if (item.meta?.versioning?.currentVersion === version) {
-    return extractComponentCode(item);
-  }
+  return item.meta?.versioning?.currentVersion === version ? item : null;
+}
 
-  // For historical versions, try localhost file system fallback for local development
-  if (registryUrl.includes("localhost") || registryUrl.includes("127.0.0.1")) {
-    const localVersion = await tryFetchLocalVersion(componentName, version);
-    if (localVersion) {
-      return localVersion;
-    }
-  }
+/**
+ * Find the main component file of a registry item
+ * Usually the file in components/ui/, otherwise the first file
+ *
+ * @param registryItem - Registry item metadata
+ * @returns Main file or undefined if the item has no files
+ */
+export function findMainFile(
+  registryItem: Pick<RegistryItem, "files">,
+): RegistryFile | undefined {
+  return (
+    registryItem.files.find(
+      (file) =>
+        file.type === "registry:ui" || file.path.includes("/components/ui/"),
+    ) ?? registryItem.files[0]
+  );
+}
 
-  // For historical versions on production, we'd need to fetch from a versions endpoint
-  // This requires registry infrastructure to serve historical versions
-  return null;
+/**
+ * Get the component name a registry dependency refers to
+ * Dependencies may be plain names, names with a range or full item URLs
+ *
+ * @param dependency - Entry from `registryDependencies`
+ * @returns Component name (e.g., "button")
+ */
+export function getRegistryDependencyName(dependency: string): string {
+  const lastSegment = dependency.split("/").pop() ?? dependency;
+  return lastSegment.replace(/\.json$/, "").replace(/(?<=.)@.*$/, "");
 }
 
 /**
- * Try to fetch a historical version from local file system
- * Only used for local development testing
+ * Fetch, parse and validate a JSON document from the registry
  *
- * @param componentName - Name of the component
- * @param version - Semantic version
- * @returns Component source code or null if not found
+ * @param url - URL to fetch
+ * @param selectSchema - Picks the schema the document must match
+ * @returns Validated document or null if not found (404)
+ * @throws If the document is not valid JSON or fails validation
  */
-async function tryFetchLocalVersion(
-  componentName: string,
-  version: string,
-): Promise<string | null> {
-  // Try common local paths for version files
-  const possiblePaths = [
-    // From www-docs directory
-    path.join(
-      process.cwd(),
-      "registry",
-      "components",
-      "ui",
-      `${componentName}.versions`,
-      `${version}.tsx`,
-    ),
-    // From monorepo root
-    path.join(
-      process.cwd(),
-      "apps",
-      "www-docs",
-      "registry",
-      "components",
-      "ui",
-      `${componentName}.versions`,
-      `${version}.tsx`,
-    ),
-  ];
-
-  for (const versionPath of possiblePaths) {
-    if (await fileExists(versionPath)) {
-      try {
-        const content = await readFile(versionPath, "utf-8");
-        return content;
-      } catch (error) {
-        // Continue trying other paths
-        continue;
+async function fetchRegistryJson<T>(
+  url: string,
+  selectSchema: (schemas: RegistrySchemas) => z.ZodType<T>,
+): Promise<T | null> {
+  const credentials = await getRegistryCredentials(url);
+
+  try {
+    const response = await fetchWithCache(
+      url,
+      credentials?.headers ?? {},
+      fetchWithRetry,
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
       }
+      if (response.status === 401 || response.status === 403) {
+        throw createAuthError(response.status, url, credentials);
+      }
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    let data: unknown;
+
+    try {
+      data = JSON.parse(response.body);
+    } catch {
+      throw new Error(`Registry returned invalid JSON.\n   Tried: ${url}`);
     }
-  }
 
-  return null;
+    return await validateRegistryData(data, url, selectSchema);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("fetch failed")) {
+      throw new Error(
+        `Failed to fetch registry data. Check your internet connection.\n   Tried: ${url}`,
+      );
+    }
+    throw error;
+  }
 }
 
 /**
- * Extract component source code from a registry item
- * Finds the main component file (usually in components/ui/)
+ * Validate a registry document against its schema
+ * Uses the strict schemas only when `registryValidation` is "strict"
  *
- * @param registryItem - Registry item metadata
- * @returns Component source code
+ * @param data - Parsed JSON
+ * @param url - URL the document came from
+ * @param selectSchema - Picks the schema the document must match
+ * @returns Validated document
+ * @throws With the path of every invalid field
  */
-export function extractComponentCode(registryItem: RegistryItem): string {
-  // Find the main UI component file
-  const mainFile = registryItem.files.find(
-    (file) =>
-      file.type === "registry:ui" || file.path.includes("/components/ui/"),
-  );
+async function validateRegistryData<T>(
+  data: unknown,
+  url: string,
+  selectSchema: (schemas: RegistrySchemas) => z.ZodType<T>,
+): Promise<T> {
+  const { registryValidation } = await readCachedConfig(process.cwd());
+  const schemas =
+    registryValidation === "strict"
+      ? strictRegistrySchemas
+      : lenientRegistrySchemas;
+  const result = selectSchema(schemas).safeParse(data);
 
-  if (!mainFile) {
-    // Fallback to first file if no UI file found
-    return registryItem.files[0]?.content || "";
+  if (result.success) {
+    return result.data;
   }
 
-  return mainFile.content;
+  const issues = result.error.issues.map(
+    (issue) => `   - ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
+  const hasUnknownFields = result.error.issues.some(
+    (issue) => issue.code === "unrecognized_keys",
+  );
+
+  throw new Error(
+    `Registry returned invalid data:\n${issues.join("\n")}\n   Tried: ${url}` +
+      (hasUnknownFields
+        ? '\n   To accept fields from newer registries, set "registryValidation": "lenient" in voidui.config.json.'
+        : ""),
+  );
 }
 
 /**
- * Fetch with retry logic
+ * Explain a 401/403 response from the registry
  *
- * @param url - URL to fetch
- * @param options - Fetch options with maxRetries
- * @returns Fetch response
+ * @param status - HTTP status (401 or 403)
+ * @param url - URL that was requested
+ * @param credentials - Credentials sent with the request, if any
+ * @returns Error with a hint on fixing the credentials
  */
-async function fetchWithRetry(
+function createAuthError(
+  status: number,
   url: string,
-  options: { maxRetries?: number } = {},
-): Promise<Response> {
-  const maxRetries = options.maxRetries ?? 1;
-  let lastError: Error | null = null;
+  credentials: RegistryCredentials | null,
+): Error {
+  if (!credentials) {
+    return new Error(
+      `Registry requires authentication (HTTP ${status}).\n` +
+        `   Tried: ${url}\n` +
+        "   Add credentials for this registry under registryAuth in voidui.config.json.",
+    );
+  }
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "voidui-cli",
-        },
-      });
-      return response;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Don't retry on last attempt
-      if (attempt < maxRetries) {
-        // Wait 2 seconds before retry
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      }
-    }
+  if (status === 401) {
+    return new Error(
+      `Registry rejected the credentials for ${credentials.registryUrl} (HTTP 401).\n` +
+        `   Tried: ${url}\n` +
+        `   Check that ${credentials.source} is valid and has not expired.`,
+    );
   }
 
-  throw lastError || new Error("Fetch failed");
+  return new Error(
+    `Access denied by ${credentials.registryUrl} (HTTP 403).\n` +
+      `   Tried: ${url}\n` +
+      `   The credentials from ${credentials.source} lack permission for this component.`,
+  );
 }
@@ -0,0 +1,73 @@
+/**
+ * Semantic version helpers
+ */
+
+import semver from "semver";
+
+/**
+ * Compare two semantic versions
+ *
+ * @param a - First version (e.g., "1.2.0")
+ * @param b - Second version (e.g., "1.10.0")
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  return semver.compare(a, b);
+}
+
+/**
+ * Check whether a string is a full semantic version
+ * Prerelease and build metadata are allowed; a "v" prefix is not
+ *
+ * @param version - Version to validate (e.g., "1.2.0-beta.1")
+ * @returns True if the version is valid semver
+ */
+export function isValidVersion(version: string): boolean {
+  return semver.valid(version) === version;
+}
+
+/**
+ * Check whether a string is a valid semver range
+ *
+ * @param range - Range to validate (e.g., "^1.2.0")
+ * @returns True if the range can be parsed
+ */
+export function isValidRange(range: string): boolean {
+  return semver.validRange(range) !== null;
+}
+
+/**
+ * Check whether a version satisfies a range
+ *
+ * @param version - Version (e.g., "1.2.3")
+ * @param range - Range (e.g., "^1.2.0")
+ * @returns True if the version is within the range
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  return semver.satisfies(version, range);
+}
+
+/**
+ * Pick the newest version that satisfies a range
+ *
+ * @param versions - Candidate versions (any order)
+ * @param range - Range (e.g., "^1.2.0")
+ * @returns Newest matching version or null if none match
+ */
+export function resolveWantedVersion(
+  versions: string[],
+  range: string,
+): string | null {
+  return semver.maxSatisfying(versions, range);
+}
+
+/**
+ * Default range recorded for an installed version
+ * Allows minor and patch updates but never a new major version
+ *
+ * @param version - Installed version (e.g., "1.2.0")
+ * @returns Caret range (e.g., "^1.2.0")
+ */
+export function defaultRangeFor(version: string): string {
+  return `^${version}`;
+}
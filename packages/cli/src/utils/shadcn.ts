@@ -5,6 +5,7 @@
 
 import { spawn } from "child_process";
 import chalk from "chalk";
+import { parseComponentName } from "./component-spec.js";
 
 export interface ShadcnOptions {
   /**
@@ -12,6 +13,12 @@ export interface ShadcnOptions {
    */
   registryUrl: string;
 
+  /**
+   * Specific version to install (defaults to the current version)
+   * Installs from the `<registry>/<name>/<version>.json` artifact
+   */
+  version?: string;
+
   /**
    * Whether to show command output
    * @default true
@@ -30,13 +37,17 @@ export async function execShadcnAdd(
   componentName: string,
   options: ShadcnOptions,
 ): Promise<void> {
-  const { registryUrl, silent = false } = options;
+  const { registryUrl, version, silent = false } = options;
 
-  // Build the component URL
-  const componentUrl = `${registryUrl}/${componentName}`;
+  // Build the component URL (the registry URL already selects the namespace)
+  const { name } = parseComponentName(componentName);
+  const componentUrl = version
+    ? `${registryUrl}/${name}/${version}.json`
+    : `${registryUrl}/${name}`;
 
   if (!silent) {
-    console.log(chalk.blue(`\n📦 Installing ${componentName} via shadcn...\n`));
+    const label = version ? `${componentName}@${version}` : componentName;
+    console.log(chalk.blue(`\n📦 Installing ${label} via shadcn...\n`));
   }
 
   return new Promise((resolve, reject) => {
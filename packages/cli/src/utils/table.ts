@@ -0,0 +1,46 @@
+/**
+ * Utilities for rendering plain-text tables in the terminal
+ */
+
+import chalk from "chalk";
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Render rows as an aligned table
+ * Cells may contain chalk colors; alignment uses the visible width
+ *
+ * @param headers - Column headers
+ * @param rows - Table rows (one string per column)
+ * @returns Table string with a bold header row
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(
+      visibleLength(header),
+      ...rows.map((row) => visibleLength(row[column] ?? "")),
+    ),
+  );
+
+  const renderRow = (cells: string[]) =>
+    cells
+      .map((cell, column) => {
+        const padding = (widths[column] ?? 0) - visibleLength(cell);
+        return cell + " ".repeat(Math.max(padding, 0));
+      })
+      .join("  ")
+      .trimEnd();
+
+  return [
+    renderRow(headers.map((header) => chalk.bold(header))),
+    ...rows.map(renderRow),
+  ].join("\n");
+}
+
+/**
+ * Length of a string as displayed in the terminal (ignores ANSI colors)
+ */
+function visibleLength(text: string): number {
+  return text.replace(ANSI_PATTERN, "").length;
+}
@@ -0,0 +1,136 @@
+/**
+ * Transforms applied to registry content before it is compared with or
+ * written to the project, mirroring what `shadcn add` does on install
+ */
+
+import type { ComponentsConfig } from "./components-config.js";
+import { namespaceToDirectory } from "./component-spec.js";
+import type { RegistryItem } from "../types/registry.js";
+
+type ResolvedAliases = Required<NonNullable<ComponentsConfig["aliases"]>>;
+
+/**
+ * Matches module specifiers starting with "@/" in import/export statements
+ * and dynamic imports
+ */
+const IMPORT_PATTERN = /(\bfrom\s*|\bimport\s*\(?\s*)(["'])(@\/[^"'\s]+)\2/g;
+
+/**
+ * Apply the project's import aliases to every file of a registry item
+ *
+ * @param registryItem - Registry item as served by the registry
+ * @param config - Parsed components.json (if any)
+ * @param namespace - Namespace of the component (if any)
+ * @returns Copy of the item with rewritten file contents
+ */
+export function transformRegistryItem(
+  registryItem: RegistryItem,
+  config: ComponentsConfig | null,
+  namespace?: string,
+): RegistryItem {
+  return {
+    ...registryItem,
+    files: registryItem.files.map((file) => ({
+      ...file,
+      content: transformImports(file.content, config, namespace),
+    })),
+  };
+}
+
+/**
+ * Rewrite registry import paths to the project's aliases
+ * e.g. "@/registry/new-york/ui/button" → "~/components/ui/button"
+ * Registry paths of namespaced components point into the namespace's
+ * directory ("~/components/ui/acme/button"), where its files are installed
+ *
+ * @param content - Source code from the registry
+ * @param config - Parsed components.json (if any)
+ * @param namespace - Namespace of the component (if any)
+ * @returns Source code as `shadcn add` would install it
+ */
+export function transformImports(
+  content: string,
+  config: ComponentsConfig | null,
+  namespace?: string,
+): string {
+  const aliases = resolveAliases(config);
+
+  return content.replace(
+    IMPORT_PATTERN,
+    (_match, prefix: string, quote: string, specifier: string) =>
+      `${prefix}${quote}${rewriteImportPath(specifier, aliases, namespace)}${quote}`,
+  );
+}
+
+/**
+ * Fill in aliases missing from components.json with shadcn's defaults,
+ * using the same prefix as the configured components alias (e.g. "~")
+ */
+function resolveAliases(config: ComponentsConfig | null): ResolvedAliases {
+  const components = config?.aliases?.components ?? "@/components";
+  const prefix = components.split("/")[0] ?? "@";
+
+  return {
+    components,
+    ui: config?.aliases?.ui ?? `${components}/ui`,
+    utils: config?.aliases?.utils ?? `${prefix}/lib/utils`,
+    lib: config?.aliases?.lib ?? `${prefix}/lib`,
+    hooks: config?.aliases?.hooks ?? `${prefix}/hooks`,
+  };
+}
+
+/**
+ * Rewrite a single "@/..." module specifier
+ */
+function rewriteImportPath(
+  specifier: string,
+  aliases: ResolvedAliases,
+  namespace: string | undefined,
+): string {
+  // 1. Registry paths point at the registry's own directories, either
+  // directly (voidui's layout) or under a style (shadcn's layout)
+  let normalized = specifier;
+  const registryMatch =
+    specifier.match(
+      /^@\/registry\/(components\/ui|ui|components|hooks|lib)(\/.*)?$/,
+    ) ??
+    specifier.match(
+      /^@\/registry\/[^/]+\/(components\/ui|ui|components|hooks|lib)(\/.*)?$/,
+    );
+
+  if (registryMatch) {
+    const directory =
+      registryMatch[1] === "ui" ? "components/ui" : registryMatch[1];
+    normalized = `@/${directory}${registryMatch[2] ?? ""}`;
+  } else if (specifier.startsWith("@/registry/")) {
+    normalized = specifier.replace(/^@\/registry\/[^/]+/, "@/components");
+  }
+
+  // 2. Map well-known directories to the configured aliases; the registry's
+  // own files of a namespaced component live in the namespace's directory
+  if (normalized === "@/lib/utils") {
+    return aliases.utils;
+  }
+
+  const namespaceSegment =
+    namespace && specifier.startsWith("@/registry/")
+      ? `/${namespaceToDirectory(namespace)}`
+      : "";
+
+  const mappings: Array<[string, string]> = [
+    ["@/components/ui", aliases.ui],
+    ["@/components", aliases.components],
+    ["@/hooks", aliases.hooks],
+    ["@/lib", aliases.lib],
+  ];
+
+  for (const [from, to] of mappings) {
+    if (normalized === from || normalized.startsWith(`${from}/`)) {
+      return to + namespaceSegment + normalized.slice(from.length);
+    }
+  }
+
+  // 3. Other project imports keep their path under the project's alias prefix
+  const aliasPrefix = aliases.components.split("/")[0] ?? "@";
+  return normalized.replace(/^@\//, `${aliasPrefix}/`);
+}
@@ -1,4 +1,12 @@
 import { z } from "zod";
+import { isValidVersion } from "../utils/semver.js";
+
+const semverSchema = z
+  .string()
+  .refine(
+    isValidVersion,
+    "Version must be in semver format (e.g., 1.0.0 or 1.0.0-beta.1)",
+  );
 
 export const changelogChangeSchema = z.object({
   type: z.enum([
@@ -13,9 +21,7 @@ export const changelogChangeSchema = z.object({
 });
 
 export const changelogEntrySchema = z.object({
-  version: z
-    .string()
-    .regex(/^\d+\.\d+\.\d+$/, "Version must be in semver format (e.g., 1.0.0)"),
+  version: semverSchema,
   date: z.string().datetime("Date must be in ISO 8601 format"),
   changes: z
     .array(changelogChangeSchema)
@@ -25,9 +31,7 @@ export const changelogEntrySchema = z.object({
 
 export const componentChangelogSchema = z.object({
   component: z.string().min(1, "Component name cannot be empty"),
-  currentVersion: z
-    .string()
-    .regex(/^\d+\.\d+\.\d+$/, "Version must be in semver format (e.g., 1.0.0)"),
+  currentVersion: semverSchema,
   entries: z
     .array(changelogEntrySchema)
     .min(1, "At least one changelog entry is required"),
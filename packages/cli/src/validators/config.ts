@@ -0,0 +1,80 @@
+/**
+ * Zod validators for voidui.config.json
+ */
+
+import { z } from "zod";
+
+/**
+ * Schema for the shell commands run after commands that write files
+ */
+const hooksSchema = z.object({
+  postAdd: z.string().min(1).optional(),
+  postUpdate: z.string().min(1).optional(),
+  postInstall: z.string().min(1).optional(),
+  postRemove: z.string().min(1).optional(),
+});
+
+/**
+ * Environment variable names, so secrets never end up in the config itself
+ */
+const envVarSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Must be an environment variable name");
+
+/**
+ * Schema for the credentials of a single registry
+ */
+const registryAuthSchema = z.object({
+  headers: z.record(z.string(), z.string()).optional(),
+  tokenEnv: envVarSchema.optional(),
+  basic: z
+    .object({
+      username: z.string().min(1),
+      passwordEnv: envVarSchema,
+    })
+    .optional(),
+});
+
+/**
+ * Schema for the complete config file
+ */
+export const voiduiConfigSchema = z.object({
+  $schema: z.string().optional(),
+  registry: z.string().url().optional(),
+  registries: z
+    .record(
+      z
+        .string()
+        .regex(/^@[a-z0-9][a-z0-9-]*$/i, 'Namespaces must look like "@acme"'),
+      z.string().url(),
+    )
+    .optional(),
+  componentDirectories: z
+    .array(
+      z
+        .string()
+        .min(1)
+        .refine((directory) => !/^([/\\]|[A-Za-z]:)/.test(directory), {
+          message: "Directories must be relative to the project root",
+        }),
+    )
+    .min(1, "At least one directory is required")
+    .optional(),
+  updateStrategy: z.enum(["prompt", "merge", "overwrite", "skip"]).optional(),
+  checksumMode: z.enum(["exact", "semantic"]).optional(),
+  hooks: hooksSchema.optional(),
+  registryAuth: z.record(z.string().url(), registryAuthSchema).optional(),
+  registryValidation: z.enum(["strict", "lenient"]).optional(),
+  cacheTtl: z.number().int().nonnegative().optional(),
+  network: z
+    .object({
+      timeout: z.number().positive().optional(),
+      retries: z.number().int().nonnegative().max(10).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Infer TypeScript types from schemas
+ */
+export type VoiduiConfig = z.infer<typeof voiduiConfigSchema>;
@@ -3,12 +3,13 @@
  */
 
 import { z } from "zod";
+import { isValidRange, isValidVersion } from "../utils/semver.js";
 
 /**
- * Validates a semver version string (e.g., "1.2.0")
+ * Validates a semver version string (e.g., "1.2.0" or "1.2.0-beta.1")
  */
-const semverSchema = z.string().regex(/^\d+\.\d+\.\d+$/, {
-  message: "Version must be in semver format (e.g., 1.2.0)",
+const semverSchema = z.string().refine(isValidVersion, {
+  message: "Version must be in semver format (e.g., 1.2.0 or 1.2.0-beta.1)",
 });
 
 /**
@@ -18,6 +19,13 @@ const checksumSchema = z.string().regex(/^sha256:[a-f0-9]{64}$/, {
   message: "Checksum must be in format: sha256:[64 hex chars]",
 });
 
+/**
+ * Validates a semver range string (e.g., "^1.2.0")
+ */
+const rangeSchema = z.string().refine(isValidRange, {
+  message: "Range must be a valid semver range (e.g., ^1.2.0)",
+});
+
 /**
  * Validates an ISO 8601 datetime string
  */
@@ -25,20 +33,41 @@ const isoDateSchema = z.string().datetime({
   message: "Date must be in ISO 8601 format",
 });
 
+/**
+ * Schema for a move of a component between registries
+ */
+const registryMigrationSchema = z.object({
+  from: z.string().url(),
+  to: z.string().url(),
+  migratedAt: isoDateSchema,
+});
+
 /**
  * Schema for a single component lock entry
+ * Unknown fields are kept, so fields added by a newer CLI survive a
+ * rewrite by an older one
  */
-export const componentLockEntrySchema = z.object({
+export const componentLockEntrySchema = z.looseObject({
   installedVersion: semverSchema,
   installedAt: isoDateSchema,
   checksum: checksumSchema,
+  files: z.record(z.string(), checksumSchema).optional(),
+  semanticChecksums: z.record(z.string(), checksumSchema).optional(),
+  baseChecksums: z.record(z.string(), checksumSchema).optional(),
+  range: rangeSchema.optional(),
+  registryDependencies: z.record(z.string(), rangeSchema).optional(),
   registryUrl: z.string().url().optional(),
+  namespace: z
+    .string()
+    .regex(/^@[a-z0-9][a-z0-9-]*$/i)
+    .optional(),
+  registryMigrations: z.array(registryMigrationSchema).optional(),
 });
 
 /**
- * Schema for the complete lock file
+ * Schema for the complete lock file (unknown fields are kept, as for entries)
  */
-export const lockFileSchema = z.object({
+export const lockFileSchema = z.looseObject({
   $schema: z.string().optional(),
   version: z.string(),
   components: z.record(z.string(), componentLockEntrySchema),
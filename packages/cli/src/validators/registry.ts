@@ -0,0 +1,126 @@
+/**
+ * Zod validators for registry responses
+ */
+
+import { z } from "zod";
+import { componentChangelogSchema } from "./changelog.js";
+import { isValidVersion } from "../utils/semver.js";
+import type {
+  RegistryFile,
+  RegistryIndex,
+  RegistryItem,
+  RegistryItemVersioning,
+} from "../types/registry.js";
+
+/**
+ * Validates a semver version string (e.g., "1.2.0" or "1.2.0-beta.1")
+ */
+const semverSchema = z.string().refine(isValidVersion, {
+  message: "Version must be in semver format (e.g., 1.2.0 or 1.2.0-beta.1)",
+});
+
+export interface RegistrySchemas {
+  registryFileSchema: z.ZodType<RegistryFile>;
+  registryItemVersioningSchema: z.ZodType<RegistryItemVersioning>;
+  registryItemSchema: z.ZodType<RegistryItem>;
+  registryIndexSchema: z.ZodType<RegistryIndex>;
+}
+
+/**
+ * Build the registry schemas
+ *
+ * @param lenient - Keep unknown fields instead of rejecting them
+ * @returns Schemas for registry files, versioning, items and the index
+ */
+function createRegistrySchemas(lenient: boolean): RegistrySchemas {
+  const object = lenient ? z.looseObject : z.strictObject;
+
+  const registryFileSchema = object({
+    path: z.string().min(1, "File path cannot be empty"),
+    content: z.string(),
+    type: z.string().min(1, "File type cannot be empty"),
+    target: z.string().optional(),
+  });
+
+  const registryItemVersioningSchema = object({
+    currentVersion: semverSchema,
+    changelog: componentChangelogSchema,
+    availableVersions: z.array(semverSchema),
+  });
+
+  // Fields of the shadcn registry item schema voidui doesn't use
+  const shadcnFields = {
+    $schema: z.string().optional(),
+    author: z.string().optional(),
+    docs: z.string().optional(),
+    categories: z.array(z.string()).optional(),
+    cssVars: z.unknown().optional(),
+    css: z.unknown().optional(),
+    tailwind: z.unknown().optional(),
+    envVars: z.unknown().optional(),
+  };
+
+  const itemFields = {
+    ...shadcnFields,
+    name: z.string().min(1, "Component name cannot be empty"),
+    type: z.string().min(1, "Component type cannot be empty"),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    // shadcn allows arbitrary metadata next to voidui's
+    meta: z
+      .looseObject({
+        versioning: registryItemVersioningSchema.optional(),
+        version: semverSchema.optional(),
+        partial: z.boolean().optional(),
+      })
+      .optional(),
+    dependencies: z.array(z.string()).optional(),
+    devDependencies: z.array(z.string()).optional(),
+    registryDependencies: z.array(z.string()).optional(),
+  };
+
+  const registryItemSchema = object({
+    ...itemFields,
+    files: z.array(registryFileSchema),
+  });
+
+  // The index usually omits file contents
+  const registryIndexItemSchema = object({
+    ...itemFields,
+    files: z
+      .array(
+        object({
+          path: z.string().min(1, "File path cannot be empty"),
+          content: z.string().optional(),
+          type: z.string().min(1, "File type cannot be empty"),
+          target: z.string().optional(),
+        }),
+      )
+      .optional(),
+  });
+
+  const registryIndexSchema = object({
+    $schema: z.string().optional(),
+    name: z.string().optional(),
+    homepage: z.string().optional(),
+    items: z.array(registryIndexItemSchema),
+  });
+
+  return {
+    registryFileSchema,
+    registryItemVersioningSchema,
+    registryItemSchema,
+    registryIndexSchema,
+  };
+}
+
+/**
+ * Schemas rejecting fields voidui doesn't know about
+ * Opt-in, since registries may add fields at any time
+ */
+export const strictRegistrySchemas = createRegistrySchemas(false);
+
+/**
+ * Schemas accepting unknown fields from newer registries (the default)
+ */
+export const lenientRegistrySchemas = createRegistrySchemas(true);
@@ -0,0 +1,46 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { resolveProjectPath } from "../src/utils/component-locator.js";
+
+const cwd = path.resolve("/project");
+
+describe("resolveProjectPath", () => {
+  it("resolves relative targets inside the project", () => {
+    expect(resolveProjectPath("components/ui/button.tsx", cwd)).toBe(
+      path.join(cwd, "components", "ui", "button.tsx"),
+    );
+  });
+
+  it("resolves ~/ from the project root", () => {
+    expect(resolveProjectPath("~/lib/utils.ts", cwd)).toBe(
+      path.join(cwd, "lib", "utils.ts"),
+    );
+  });
+
+  it("allows .. segments that stay inside the project", () => {
+    expect(resolveProjectPath("hooks/../lib/utils.ts", cwd)).toBe(
+      path.join(cwd, "lib", "utils.ts"),
+    );
+  });
+
+  it("allows names starting with two dots", () => {
+    expect(resolveProjectPath("..config.ts", cwd)).toBe(
+      path.join(cwd, "..config.ts"),
+    );
+  });
+
+  it.each([
+    "../outside.txt",
+    "components/../../outside.txt",
+    "~/../outside.txt",
+    "..",
+    ".",
+    "",
+    "/etc/passwd",
+    "~//etc/passwd",
+  ])("rejects %j", (target) => {
+    expect(() => resolveProjectPath(target, cwd)).toThrow(
+      "is outside the project",
+    );
+  });
+});
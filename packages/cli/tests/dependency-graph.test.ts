@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  findUnsatisfiedDependencies,
+  getDependencyEdges,
+  parseRegistryDependency,
+} from "../src/utils/dependency-graph.js";
+import type { LockFile } from "../src/types/lock-file.js";
+
+describe("parseRegistryDependency", () => {
+  it("parses plain names", () => {
+    expect(parseRegistryDependency("button")).toEqual({
+      name: "button",
+      range: "*",
+    });
+  });
+
+  it("parses names with a range", () => {
+    expect(parseRegistryDependency("button@^1.2.0")).toEqual({
+      name: "button",
+      range: "^1.2.0",
+    });
+  });
+
+  it("parses namespaced names", () => {
+    expect(parseRegistryDependency("@acme/button")).toEqual({
+      name: "@acme/button",
+      range: "*",
+    });
+    expect(parseRegistryDependency("@acme/button@~1.0.0")).toEqual({
+      name: "@acme/button",
+      range: "~1.0.0",
+    });
+  });
+
+  it("parses full item URLs", () => {
+    expect(
+      parseRegistryDependency("https://registry.acme.dev/r/button.json"),
+    ).toEqual({
+      name: "button",
+      range: "*",
+      registryUrl: "https://registry.acme.dev/r",
+    });
+  });
+
+  it("throws for invalid ranges", () => {
+    expect(() => parseRegistryDependency("button@latest!")).toThrow(
+      'Invalid range "latest!" in registry dependency "button@latest!"',
+    );
+  });
+});
+
+describe("getDependencyEdges", () => {
+  it("returns undefined without registry dependencies", () => {
+    expect(getDependencyEdges({ registryDependencies: [] })).toBeUndefined();
+    expect(getDependencyEdges({})).toBeUndefined();
+  });
+
+  it("keys plain names by the dependent's namespace", () => {
+    expect(
+      getDependencyEdges(
+        { registryDependencies: ["icon@^1.0.0", "@other/card"] },
+        { namespace: "@acme" },
+      ),
+    ).toEqual({ "@acme/icon": "^1.0.0", "@other/card": "*" });
+  });
+
+  it("keys item URLs from the dependent's registry like plain names", () => {
+    expect(
+      getDependencyEdges(
+        { registryDependencies: ["https://voidui.dev/r/button.json"] },
+        { registryUrl: "https://voidui.dev/r/" },
+      ),
+    ).toEqual({ button: "*" });
+  });
+
+  it("keys item URLs from a named registry by its namespace", () => {
+    expect(
+      getDependencyEdges(
+        { registryDependencies: ["https://registry.acme.dev/r/button.json"] },
+        {
+          registryUrl: "https://voidui.dev/r",
+          registries: { "@acme": "https://registry.acme.dev/r" },
+        },
+      ),
+    ).toEqual({ "@acme/button": "*" });
+  });
+
+  it("keys item URLs from other registries by URL", () => {
+    expect(
+      getDependencyEdges(
+        { registryDependencies: ["https://registry.acme.dev/r/button.json"] },
+        { registryUrl: "https://voidui.dev/r" },
+      ),
+    ).toEqual({ "https://registry.acme.dev/r/button": "*" });
+  });
+});
+
+describe("findUnsatisfiedDependencies", () => {
+  const entry = {
+    installedAt: "2025-01-01T00:00:00.000Z",
+    checksum: `sha256:${"0".repeat(64)}`,
+  };
+
+  it("reports edges the installed versions don't satisfy", () => {
+    const lockFile: LockFile = {
+      version: "1.2",
+      components: {
+        dialog: {
+          ...entry,
+          installedVersion: "1.0.0",
+          registryDependencies: { button: "^2.0.0", icon: "*" },
+        },
+        button: { ...entry, installedVersion: "1.4.0" },
+      },
+    };
+
+    expect(findUnsatisfiedDependencies(lockFile)).toEqual([
+      {
+        dependent: "dialog",
+        name: "button",
+        range: "^2.0.0",
+        installedVersion: "1.4.0",
+      },
+      {
+        dependent: "dialog",
+        name: "icon",
+        range: "*",
+        installedVersion: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { migrateLockFile } from "../src/utils/lock-file-migrations.js";
+
+describe("migrateLockFile", () => {
+  it("upgrades a 1.0 lock file step by step", () => {
+    const { lockFile, steps } = migrateLockFile(
+      { version: "1.0", components: {} },
+      "1.2",
+    );
+
+    expect(lockFile.version).toBe("1.2");
+    expect(steps).toEqual(["1.0 → 1.1", "1.1 → 1.2"]);
+  });
+
+  it("keeps components and unknown fields", () => {
+    const components = {
+      separator: {
+        installedVersion: "1.0.0",
+        range: "^1.0.0",
+        files: { "components/ui/separator.tsx": "sha256:abc" },
+      },
+    };
+    const { lockFile } = migrateLockFile(
+      { version: "1.1", components, extra: true },
+      "1.2",
+    );
+
+    expect(lockFile).toEqual({ version: "1.2", components, extra: true });
+  });
+
+  it("does not mutate its input", () => {
+    const input = { version: "1.0", components: {} };
+
+    migrateLockFile(input, "1.2");
+
+    expect(input.version).toBe("1.0");
+  });
+
+  it("returns lock files at the target version unchanged", () => {
+    const input = { version: "1.2", components: {} };
+    const { lockFile, steps } = migrateLockFile(input, "1.2");
+
+    expect(lockFile).toBe(input);
+    expect(steps).toEqual([]);
+  });
+
+  it("throws for unknown versions", () => {
+    expect(() =>
+      migrateLockFile({ version: "0.9", components: {} }, "1.2"),
+    ).toThrow("No migration from lock file format 0.9 to 1.2");
+  });
+});
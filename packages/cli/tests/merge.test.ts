@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { hasConflictMarkers, threeWayMerge } from "../src/utils/merge.js";
+
+const base = ["import a", "", "function f() {", "  return 1", "}", ""].join(
+  "\n",
+);
+
+describe("threeWayMerge", () => {
+  it("keeps local changes and takes upstream changes elsewhere", () => {
+    const ours = base.replace("import a", "import a\nimport b");
+    const theirs = base.replace("return 1", "return 2");
+    const result = threeWayMerge(base, ours, theirs);
+
+    expect(result.success).toBe(true);
+    expect(result.conflictCount).toBe(0);
+    expect(result.content).toBe(
+      [
+        "import a",
+        "import b",
+        "",
+        "function f() {",
+        "  return 2",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("takes upstream unchanged when there are no local changes", () => {
+    const theirs = base.replace("return 1", "return 2");
+
+    expect(threeWayMerge(base, base, theirs).content).toBe(theirs);
+  });
+
+  it("marks conflicting changes to the same lines", () => {
+    const ours = base.replace("return 1", "return 3");
+    const theirs = base.replace("return 1", "return 2");
+    const result = threeWayMerge(base, ours, theirs, {
+      ours: "local",
+      theirs: "1.1.0",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.conflictCount).toBe(1);
+    expect(result.content).toContain(
+      [
+        "<<<<<<< local",
+        "  return 3",
+        "=======",
+        "  return 2",
+        ">>>>>>> 1.1.0",
+      ].join("\n"),
+    );
+    expect(hasConflictMarkers(result.content)).toBe(true);
+  });
+
+  it("merges identical changes without a conflict", () => {
+    const changed = base.replace("return 1", "return 2");
+
+    expect(threeWayMerge(base, changed, changed)).toEqual({
+      success: true,
+      content: changed,
+      conflictCount: 0,
+    });
+  });
+});
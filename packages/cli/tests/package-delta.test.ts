@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffPackageDependencies,
+  hasKnownPackages,
+  hasPackageChanges,
+} from "../src/utils/package-delta.js";
+
+describe("diffPackageDependencies", () => {
+  it("reports added, removed and changed packages", () => {
+    const delta = diffPackageDependencies(
+      { dependencies: ["zod@^3.0.0", "clsx", "@radix-ui/react-slot"] },
+      { dependencies: ["zod@^4.0.0", "clsx", "lucide-react"] },
+    );
+
+    expect(delta).toEqual({
+      added: [{ name: "lucide-react", to: "lucide-react", dev: false }],
+      removed: [
+        {
+          name: "@radix-ui/react-slot",
+          from: "@radix-ui/react-slot",
+          dev: false,
+        },
+      ],
+      changed: [
+        { name: "zod", from: "zod@^3.0.0", to: "zod@^4.0.0", dev: false },
+      ],
+    });
+    expect(hasPackageChanges(delta)).toBe(true);
+  });
+
+  it("compares devDependencies separately", () => {
+    const delta = diffPackageDependencies(
+      { dependencies: ["zod"] },
+      { devDependencies: ["zod"] },
+    );
+
+    expect(delta.added).toEqual([{ name: "zod", to: "zod", dev: true }]);
+    expect(delta.removed).toEqual([{ name: "zod", from: "zod", dev: false }]);
+  });
+
+  it("treats missing lists as empty", () => {
+    const delta = diffPackageDependencies({}, {});
+
+    expect(delta).toEqual({ added: [], removed: [], changed: [] });
+    expect(hasPackageChanges(delta)).toBe(false);
+  });
+});
+
+describe("hasKnownPackages", () => {
+  it("is false only for partial version artifacts", () => {
+    expect(hasKnownPackages({})).toBe(true);
+    expect(hasKnownPackages({ meta: { partial: false } })).toBe(true);
+    expect(hasKnownPackages({ meta: { partial: true } })).toBe(false);
+  });
+});
